@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "work_items" ADD COLUMN     "assignee_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "work_items" ADD CONSTRAINT "work_items_assignee_id_fkey" FOREIGN KEY ("assignee_id") REFERENCES "team_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "sprints" ADD COLUMN     "carried_over_points" DOUBLE PRECISION,
+ADD COLUMN     "closed_at" TIMESTAMP(3);
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "sprints" ADD COLUMN     "commitment_snapshot" JSONB,
+ADD COLUMN     "started_at" TIMESTAMP(3),
+ADD COLUMN     "state" TEXT NOT NULL DEFAULT 'planned';
+
+-- Sprints closed before the lifecycle existed keep their history
+UPDATE "sprints" SET "state" = 'closed' WHERE "closed_at" IS NOT NULL;
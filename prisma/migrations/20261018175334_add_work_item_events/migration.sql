@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "work_item_events" (
+    "id" TEXT NOT NULL,
+    "work_item_id" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "old_value" JSONB,
+    "new_value" JSONB,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "work_item_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "work_item_events_work_item_id_createdAt_idx" ON "work_item_events"("work_item_id", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "work_item_events" ADD CONSTRAINT "work_item_events_work_item_id_fkey" FOREIGN KEY ("work_item_id") REFERENCES "work_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "sprint_snapshots" (
+    "id" TEXT NOT NULL,
+    "sprint_id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "scope_points" DOUBLE PRECISION NOT NULL,
+    "completed_points" DOUBLE PRECISION NOT NULL,
+    "remaining_points" DOUBLE PRECISION NOT NULL,
+    "item_count" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sprint_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sprint_snapshots_sprint_id_date_key" ON "sprint_snapshots"("sprint_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "sprint_snapshots" ADD CONSTRAINT "sprint_snapshots_sprint_id_fkey" FOREIGN KEY ("sprint_id") REFERENCES "sprints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
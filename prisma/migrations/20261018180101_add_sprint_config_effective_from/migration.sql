@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sprint_config" ADD COLUMN     "effective_from" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- The configuration in place before versioning applies from the first sprint
+UPDATE "sprint_config" SET "effective_from" = "first_sprint_start_date";
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "public_holidays" ADD COLUMN     "team_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "scenarios" ADD COLUMN     "team_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "sprint_config" ADD COLUMN     "team_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "sprints" ADD COLUMN     "team_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "team_members" ADD COLUMN     "team_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "work_items" ADD COLUMN     "team_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "teams" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "teams_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "teams_name_key" ON "teams"("name");
+
+-- AddForeignKey
+ALTER TABLE "team_members" ADD CONSTRAINT "team_members_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_items" ADD CONSTRAINT "work_items_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sprints" ADD CONSTRAINT "sprints_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public_holidays" ADD CONSTRAINT "public_holidays_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sprint_config" ADD CONSTRAINT "sprint_config_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scenarios" ADD CONSTRAINT "scenarios_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
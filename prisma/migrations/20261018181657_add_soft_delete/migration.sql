@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "team_members" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "work_items" ADD COLUMN     "deleted_at" TIMESTAMP(3),
+ADD COLUMN     "deleted_links" JSONB;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "snapshot_backups" (
+    "id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "params" JSONB,
+    "data" JSONB NOT NULL,
+    "actor_id" TEXT,
+    "actor_name" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "snapshot_backups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "snapshot_backups_createdAt_idx" ON "snapshot_backups"("createdAt");
@@ -6,6 +6,17 @@ import sprintsRoutes from './routes/sprints';
 import holidaysRoutes from './routes/holidays';
 import sprintConfigRoutes from './routes/sprintConfig';
 import jiraIntegrationRoutes from './routes/jiraIntegration';
+import planningRoutes from './routes/planning';
+import scenariosRoutes from './routes/scenarios';
+import teamsRoutes from './routes/teams';
+import authRoutes from './routes/auth';
+import usersRoutes from './routes/users';
+import auditRoutes from './routes/audit';
+import trashRoutes from './routes/trash';
+import snapshotRoutes from './routes/snapshot';
+import { authenticate, authorizeByMethod, requireRole } from './lib/auth';
+import { captureRunningSprintSnapshots } from './lib/burndown';
+import { purgeTrash } from './lib/trash';
 import { PrismaClient } from '@prisma/client';
 
 const app = express();
@@ -13,23 +24,41 @@ const port = 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
 
 // Initialize Prisma
 const prisma = new PrismaClient();
 
+// Health check (the only unauthenticated endpoint)
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// Authentication: every other /api route needs an API key or a bearer token.
+// Any role may use /api/auth; elsewhere viewers can read and planners can write.
+app.use('/api', authenticate);
+
+// Request bodies are only parsed once the caller is known. Plan snapshots are posted whole, so admins get a
+// larger limit there; that parser has to run before the default one, which would reject them as too large.
+app.post('/api/snapshot/restore', requireRole('admin'), express.json({ limit: '25mb' }));
+app.use(express.json());
+
+app.use('/api/auth', authRoutes);
+app.use('/api', authorizeByMethod);
+
 // Routes
 app.use('/api/team-members', teamMembersRoutes);
 app.use('/api/work-items', workItemsRoutes);
 app.use('/api/sprints', sprintsRoutes);
 app.use('/api/holidays', holidaysRoutes);
 app.use('/api/sprint-config', sprintConfigRoutes);
-app.use('/api/jira', jiraIntegrationRoutes);
-
-// Health check
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+app.use('/api/jira', requireRole('admin'), jiraIntegrationRoutes);
+app.use('/api/planning', planningRoutes);
+app.use('/api/scenarios', scenariosRoutes);
+app.use('/api/teams', teamsRoutes);
+app.use('/api/users', requireRole('admin'), usersRoutes);
+app.use('/api/audit', requireRole('admin'), auditRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/snapshot', snapshotRoutes);
 
 // Request logging
 app.use((req, res, next) => {
@@ -43,6 +72,22 @@ app.use((error: Error, req: express.Request, res: express.Response, next: expres
   res.status(500).json({ error: 'Internal server error' });
 });
 
+// Capture sprint burndown snapshots; the hourly run keeps each day's snapshot up to date
+const SNAPSHOT_INTERVAL = 60 * 60 * 1000;
+const captureSnapshots = () => {
+  captureRunningSprintSnapshots()
+    .then(count => console.log(`📸 Captured burndown snapshots for ${count} running sprint(s)`))
+    .catch(error => console.error('Error capturing sprint snapshots:', error));
+};
+
+// Permanently delete trashed items once they are older than TRASH_RETENTION_DAYS
+const TRASH_PURGE_INTERVAL = 24 * 60 * 60 * 1000;
+const purgeExpiredTrash = () => {
+  purgeTrash()
+    .then(counts => console.log(`🗑️ Purged ${counts.workItems} work item(s) and ${counts.teamMembers} team member(s) from the trash`))
+    .catch(error => console.error('Error purging trash:', error));
+};
+
 // Start server
 app.listen(port, '0.0.0.0', () => {
   console.log(`🚀 Server running on http://0.0.0.0:${port}`);
@@ -52,13 +97,36 @@ app.listen(port, '0.0.0.0', () => {
   console.log(`  - POST /api/team-members`);
   console.log(`  - GET  /api/work-items`);
   console.log(`  - POST /api/work-items`);
+  console.log(`  - POST /api/work-items/import`);
   console.log(`  - GET  /api/sprints`);
   console.log(`  - POST /api/sprints`);
   console.log(`  - GET  /api/holidays`);
   console.log(`  - POST /api/holidays`);
   console.log(`  - GET  /api/sprint-config`);
   console.log(`  - POST /api/sprint-config`);
+  console.log(`  - POST /api/sprint-config/generate`);
   console.log(`  - POST /api/jira/team-members`);
   console.log(`  - POST /api/jira/epics`);
   console.log(`  - POST /api/jira/import`);
+  console.log(`  - POST /api/planning/schedule`);
+  console.log(`  - GET  /api/scenarios`);
+  console.log(`  - POST /api/scenarios`);
+  console.log(`  - GET  /api/teams`);
+  console.log(`  - GET  /api/teams/portfolio`);
+  console.log(`  - GET  /api/auth/me`);
+  console.log(`  - POST /api/auth/token`);
+  console.log(`  - GET  /api/users`);
+  console.log(`  - POST /api/users`);
+  console.log(`  - GET  /api/audit`);
+  console.log(`  - GET  /api/trash`);
+  console.log(`  - POST /api/trash/work-items/:id/restore`);
+  console.log(`  - POST /api/trash/team-members/:id/restore`);
+  console.log(`  - GET  /api/snapshot`);
+  console.log(`  - POST /api/snapshot/restore`);
+  console.log(`  - GET  /api/snapshot/backups`);
+
+  captureSnapshots();
+  setInterval(captureSnapshots, SNAPSHOT_INTERVAL);
+  purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, TRASH_PURGE_INTERVAL);
 }); 
\ No newline at end of file
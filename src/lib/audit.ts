@@ -0,0 +1,48 @@
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const AUDIT_ACTIONS = [
+  'reset-database',
+  'selective-reset',
+  'clear-all',
+  'jira-epic-delete',
+  'sprint-regeneration',
+  'scenario-promote',
+  'sprint-config-save',
+  'user-create',
+  'user-update',
+  'user-delete',
+  'user-api-key-rotate',
+  'user-api-key-revoke',
+  'trash-purge',
+  'snapshot-restore'
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export type AuditCounts = Record<string, number>;
+
+// Record who ran a destructive or administrative operation, with what parameters and how many rows
+// it touched. Pass a transaction client to commit the entry together with the change it describes.
+export async function recordAudit(
+  req: Request,
+  action: AuditAction,
+  params: Record<string, unknown>,
+  counts: AuditCounts,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await client.auditLog.create({
+    data: {
+      action,
+      actorId: req.user?.id ?? null,
+      actorName: req.user ? req.user.email || req.user.name : null,
+      actorRole: req.user?.role ?? null,
+      method: req.method,
+      route: `${req.baseUrl}${req.route?.path ?? req.path}`,
+      params: params as Prisma.InputJsonValue,
+      counts: counts as Prisma.InputJsonValue
+    }
+  });
+
+  console.log(`📝 Audit: ${action} by ${req.user ? req.user.email || req.user.name : 'anonymous'}`, counts);
+}
@@ -0,0 +1,202 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { prisma } from './prisma';
+import { ApiError } from '../types';
+
+// Ordered from least to most privileged; each role can do everything the ones before it can
+export const ROLES = ['viewer', 'planner', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  method: 'api-key' | 'jwt' | 'bootstrap';
+}
+
+export interface JwtClaims {
+  sub: string; // User ID
+  role: Role;
+  iat: number;
+  exp: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+
+// Only refresh lastSeenAt this often, so authenticating does not write on every request
+const LAST_SEEN_RESOLUTION = 5 * 60 * 1000;
+
+export function hasRole(role: string, required: Role): boolean {
+  return ROLES.indexOf(role as Role) >= ROLES.indexOf(required);
+}
+
+export function generateApiKey(): string {
+  return `rp_${randomBytes(24).toString('hex')}`;
+}
+
+// API keys are stored as SHA-256 hashes; they are long and random, so no salt is needed
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// Example values from env.example and the README; anyone could forge tokens signed with them
+const PLACEHOLDER_JWT_SECRETS = ['your-secret-key', 'a-long-random-string'];
+
+function jwtSecret(): string | null {
+  const secret = process.env.JWT_SECRET;
+  return secret && !PLACEHOLDER_JWT_SECRETS.includes(secret) ? secret : null;
+}
+
+export function jwtConfigured(): boolean {
+  return jwtSecret() !== null;
+}
+
+function signature(input: string, secret: string): string {
+  return createHmac('sha256', secret).update(input).digest('base64url');
+}
+
+// Issue an HS256 token for a user, valid for JWT_EXPIRES_IN_SECONDS (one hour by default)
+export function signJwt(user: { id: string; role: Role }): { token: string; expiresAt: Date } {
+  const secret = jwtSecret();
+  if (!secret) throw new Error('JWT_SECRET is not configured');
+
+  const ttl = parseInt(process.env.JWT_EXPIRES_IN_SECONDS || '') || DEFAULT_TOKEN_TTL_SECONDS;
+  const iat = Math.floor(Date.now() / 1000);
+  const claims: JwtClaims = { sub: user.id, role: user.role, iat, exp: iat + ttl };
+
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return {
+    token: `${header}.${payload}.${signature(`${header}.${payload}`, secret)}`,
+    expiresAt: new Date(claims.exp * 1000)
+  };
+}
+
+// Check an HS256 token's signature and expiry against JWT_SECRET; returns null for anything invalid
+export function verifyJwt(token: string): JwtClaims | null {
+  const secret = jwtSecret();
+  const parts = token.split('.');
+  if (!secret || parts.length !== 3) return null;
+
+  try {
+    const [header, payload, tokenSignature] = parts;
+    if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') return null;
+    if (!safeEqual(tokenSignature, signature(`${header}.${payload}`, secret))) return null;
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+    if (claims.exp * 1000 <= Date.now()) return null;
+
+    return claims as JwtClaims;
+  } catch {
+    return null;
+  }
+}
+
+// Resolve the caller from an X-API-Key header or an Authorization: Bearer header holding
+// either a JWT or an API key. The user's current role always comes from the database, so
+// role changes and deactivation take effect immediately, even for tokens already issued.
+async function resolveUser(req: Request): Promise<AuthUser | null> {
+  const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1].trim();
+  const headerKey = req.headers['x-api-key'];
+  const apiKey = typeof headerKey === 'string' ? headerKey.trim() : bearer && bearer.split('.').length !== 3 ? bearer : null;
+
+  // Static key from the environment for creating the first users
+  const bootstrapKey = process.env.AUTH_BOOTSTRAP_API_KEY;
+  if (apiKey && bootstrapKey && safeEqual(apiKey, bootstrapKey)) {
+    return { id: 'bootstrap', name: 'Bootstrap admin', email: '', role: 'admin', method: 'bootstrap' };
+  }
+
+  let method: AuthUser['method'];
+  let user;
+  if (apiKey) {
+    method = 'api-key';
+    user = await prisma.user.findUnique({ where: { apiKeyHash: hashApiKey(apiKey) } });
+  } else if (bearer) {
+    const claims = verifyJwt(bearer);
+    if (!claims) return null;
+    method = 'jwt';
+    user = await prisma.user.findUnique({ where: { id: claims.sub } });
+  } else {
+    return null;
+  }
+
+  if (!user || !user.active || !(ROLES as readonly string[]).includes(user.role)) return null;
+
+  if (!user.lastSeenAt || Date.now() - user.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION) {
+    prisma.user.update({ where: { id: user.id }, data: { lastSeenAt: new Date() } })
+      .catch(error => console.error('Error updating user last seen time:', error));
+  }
+
+  return { id: user.id, name: user.name, email: user.email, role: user.role as Role, method };
+}
+
+// Reject requests without valid credentials and attach the caller as req.user
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const hasCredentials = Boolean(req.headers.authorization || req.headers['x-api-key']);
+    const user = hasCredentials ? await resolveUser(req) : null;
+
+    if (!user) {
+      const apiError: ApiError = {
+        error: hasCredentials ? 'Invalid credentials' : 'Authentication required',
+        message: 'Send an API key in X-API-Key or a token in Authorization: Bearer'
+      };
+      return res.status(401).json(apiError);
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    const apiError: ApiError = {
+      error: 'Failed to authenticate request',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+}
+
+// Only let callers with at least the given role through
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      const apiError: ApiError = {
+        error: 'Authentication required'
+      };
+      return res.status(401).json(apiError);
+    }
+
+    if (!hasRole(req.user.role, role)) {
+      console.warn(`🚫 ${req.user.email || req.user.name} (${req.user.role}) denied ${req.method} ${req.originalUrl}`);
+      const apiError: ApiError = {
+        error: 'Forbidden',
+        message: `${req.method} ${req.baseUrl}${req.path} requires the ${role} role`
+      };
+      return res.status(403).json(apiError);
+    }
+
+    next();
+  };
+}
+
+// Default policy: viewers can read, planners can change the plan. Admin-only routes add requireRole('admin').
+export function authorizeByMethod(req: Request, res: Response, next: NextFunction) {
+  const isRead = req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS';
+  return requireRole(isRead ? 'viewer' : 'planner')(req, res, next);
+}
@@ -0,0 +1,201 @@
+import { prisma } from './prisma';
+import { getWorkingDays, startOfUtcDay, toDayKey } from './capacity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BurndownItem {
+  workItemId: string;
+  title: string;
+  storyPoints: number;
+  assignedAt: Date;
+  status: string;
+  statusEvents: { createdAt: Date; oldValue: unknown; newValue: unknown }[]; // Ascending
+}
+
+export interface BurndownSnapshot {
+  date: Date;
+  scopePoints: number;
+  completedPoints: number;
+  remainingPoints: number;
+}
+
+export interface BurndownDay {
+  date: string;
+  workingDay: boolean;
+  scopePoints: number;
+  completedPoints: number;
+  remainingPoints: number;
+  idealRemainingPoints: number;
+  scopeAddedPoints: number;
+  source: 'snapshot' | 'reconstructed';
+}
+
+export interface ScopeChange {
+  workItemId: string;
+  title: string;
+  storyPoints: number;
+  assignedAt: Date;
+}
+
+export interface Burndown {
+  sprintId: string;
+  sprintName: string;
+  startDate: Date;
+  endDate: Date;
+  committedPoints: number;
+  workingDays: number;
+  days: BurndownDay[];
+  scopeAdded: ScopeChange[];
+}
+
+// Round to two decimal places for API output
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Status of an item at a point in time, replayed from its status change events
+function statusAt(item: BurndownItem, time: Date): string {
+  const past = item.statusEvents.filter(event => event.createdAt <= time);
+  if (past.length > 0) return String(past[past.length - 1].newValue);
+
+  const future = item.statusEvents.find(event => event.createdAt > time);
+  return future ? String(future.oldValue) : item.status;
+}
+
+// Build the daily series for a sprint. Days with a stored snapshot use it as-is; other days are
+// reconstructed from assignment dates and status history. Scope added after the first day counts
+// as a scope change, and the ideal line burns the starting commitment down evenly across working
+// days that are not public holidays.
+export function buildBurndown(
+  sprint: { id: string; name: string; startDate: Date; endDate: Date; committedPoints: number | null },
+  items: BurndownItem[],
+  snapshots: BurndownSnapshot[],
+  publicHolidayDates: Date[],
+  now: Date
+): Burndown {
+  const firstDay = startOfUtcDay(sprint.startDate);
+  const lastDay = startOfUtcDay(sprint.endDate);
+  const today = startOfUtcDay(now);
+
+  const holidayKeys = new Set(publicHolidayDates.map(toDayKey));
+  const workingDayKeys = new Set(
+    getWorkingDays(firstDay, lastDay).map(toDayKey).filter(key => !holidayKeys.has(key))
+  );
+  const snapshotsByDay = new Map(snapshots.map(snapshot => [toDayKey(snapshot.date), snapshot]));
+
+  const firstDayEnd = new Date(firstDay.getTime() + DAY_MS - 1);
+  const scopeAdded = items
+    .filter(item => item.assignedAt > firstDayEnd)
+    .sort((a, b) => a.assignedAt.getTime() - b.assignedAt.getTime())
+    .map(item => ({
+      workItemId: item.workItemId,
+      title: item.title,
+      storyPoints: item.storyPoints,
+      assignedAt: item.assignedAt
+    }));
+
+  const startingScope = items
+    .filter(item => item.assignedAt <= firstDayEnd)
+    .reduce((total, item) => total + item.storyPoints, 0);
+  const committedPoints = sprint.committedPoints ?? startingScope;
+
+  const days: BurndownDay[] = [];
+  let workingDaysElapsed = 0;
+  let previousScope: number | null = null;
+
+  for (let time = firstDay.getTime(); time <= lastDay.getTime() && time <= today.getTime(); time += DAY_MS) {
+    const day = new Date(time);
+    const key = toDayKey(day);
+    const dayEnd = new Date(time + DAY_MS - 1);
+    const workingDay = workingDayKeys.has(key);
+    if (workingDay) workingDaysElapsed++;
+
+    const snapshot = snapshotsByDay.get(key);
+    let scopePoints: number;
+    let completedPoints: number;
+    if (snapshot) {
+      scopePoints = snapshot.scopePoints;
+      completedPoints = snapshot.completedPoints;
+    } else {
+      const inScope = items.filter(item => item.assignedAt <= dayEnd);
+      scopePoints = inScope.reduce((total, item) => total + item.storyPoints, 0);
+      completedPoints = inScope
+        .filter(item => statusAt(item, dayEnd) === 'Completed')
+        .reduce((total, item) => total + item.storyPoints, 0);
+    }
+
+    const idealRemainingPoints = workingDayKeys.size > 0
+      ? committedPoints * (1 - workingDaysElapsed / workingDayKeys.size)
+      : 0;
+
+    days.push({
+      date: key,
+      workingDay,
+      scopePoints: round(scopePoints),
+      completedPoints: round(completedPoints),
+      remainingPoints: round(scopePoints - completedPoints),
+      idealRemainingPoints: round(idealRemainingPoints),
+      scopeAddedPoints: round(previousScope === null ? 0 : Math.max(0, scopePoints - previousScope)),
+      source: snapshot ? 'snapshot' : 'reconstructed'
+    });
+    previousScope = scopePoints;
+  }
+
+  return {
+    sprintId: sprint.id,
+    sprintName: sprint.name,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    committedPoints: round(committedPoints),
+    workingDays: workingDayKeys.size,
+    days,
+    scopeAdded
+  };
+}
+
+// Store today's scope and progress for a sprint; capturing again on the same day overwrites it
+export async function captureSprintSnapshot(sprintId: string, now: Date = new Date()): Promise<void> {
+  const assignments = await prisma.sprintWorkItem.findMany({
+    where: { sprintId },
+    include: { workItem: true }
+  });
+
+  const workItems = assignments.map(assignment => assignment.workItem).filter(workItem => !workItem.isEpic);
+  const scopePoints = workItems.reduce((total, workItem) => total + workItem.estimateStoryPoints, 0);
+  const completedPoints = workItems
+    .filter(workItem => workItem.status === 'Completed')
+    .reduce((total, workItem) => total + workItem.estimateStoryPoints, 0);
+  const date = startOfUtcDay(now);
+
+  const data = {
+    scopePoints,
+    completedPoints,
+    remainingPoints: scopePoints - completedPoints,
+    itemCount: workItems.length
+  };
+
+  await prisma.sprintSnapshot.upsert({
+    where: { sprintId_date: { sprintId, date } },
+    create: { sprintId, date, ...data },
+    update: data
+  });
+}
+
+// Snapshot every sprint that is running today; closed sprints keep the history they have
+export async function captureRunningSprintSnapshots(now: Date = new Date()): Promise<number> {
+  const today = startOfUtcDay(now);
+  const sprints = await prisma.sprint.findMany({
+    where: {
+      archived: false,
+      state: { not: 'closed' },
+      startDate: { lt: new Date(today.getTime() + DAY_MS) },
+      endDate: { gte: today }
+    }
+  });
+
+  for (const sprint of sprints) {
+    await captureSprintSnapshot(sprint.id, now);
+  }
+
+  return sprints.length;
+}
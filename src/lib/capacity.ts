@@ -0,0 +1,231 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { holidayTeamScope, teamScope } from './teamScope';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CapacityTeamMember {
+  id: string;
+  name: string;
+  capacity: number; // 0-100 percentage
+  skills: string[];
+  personalHolidays: { startDate: Date; endDate: Date }[];
+  teamId?: string | null;
+}
+
+export interface CapacityPublicHoliday {
+  name: string;
+  date: Date;
+  impactPercentage: number; // 0-100 percentage
+  teamId?: string | null; // null applies to every team
+}
+
+export interface CapacitySprint {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  plannedVelocity: number;
+  teamId?: string | null; // When present, only this team's members and holidays count
+}
+
+export interface MemberCapacity {
+  teamMemberId: string;
+  name: string;
+  capacity: number;
+  skills: string[];
+  workingDays: number;
+  personalHolidayDays: number;
+  publicHolidayDays: number;
+  availableDays: number;
+  availablePoints: number;
+}
+
+export interface SprintCapacity {
+  sprintId: string;
+  sprintName: string;
+  startDate: Date;
+  endDate: Date;
+  workingDays: number;
+  publicHolidays: CapacityPublicHoliday[];
+  plannedVelocity: number;
+  availableVelocity: number;
+  capacityRatio: number; // availableVelocity / plannedVelocity
+  members: MemberCapacity[];
+  skills: { [skill: string]: number };
+}
+
+// Round to two decimal places for API output
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Normalize a date to midnight UTC so day comparisons ignore the time component
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function toDayKey(date: Date): string {
+  return startOfUtcDay(date).toISOString().slice(0, 10);
+}
+
+// All weekdays (Mon-Fri) between start and end, inclusive
+export function getWorkingDays(startDate: Date, endDate: Date): Date[] {
+  const days: Date[] = [];
+  const end = startOfUtcDay(endDate).getTime();
+
+  for (let time = startOfUtcDay(startDate).getTime(); time <= end; time += DAY_MS) {
+    const day = new Date(time);
+    const weekday = day.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      days.push(day);
+    }
+  }
+
+  return days;
+}
+
+// Work out how many story points each member (and the team) can deliver in a sprint.
+// plannedVelocity is treated as what the team delivers in a holiday-free sprint at each
+// member's normal capacity, so holidays scale it down proportionally.
+export function calculateSprintCapacity(
+  sprint: CapacitySprint,
+  teamMembers: CapacityTeamMember[],
+  publicHolidays: CapacityPublicHoliday[]
+): SprintCapacity {
+  if (sprint.teamId !== undefined) {
+    teamMembers = teamMembers.filter(member => (member.teamId ?? null) === sprint.teamId);
+    publicHolidays = publicHolidays.filter(holiday => !holiday.teamId || holiday.teamId === sprint.teamId);
+  }
+
+  const workingDays = getWorkingDays(sprint.startDate, sprint.endDate);
+  const workingDayKeys = new Set(workingDays.map(toDayKey));
+
+  // Public holiday impact per working day (the largest impact wins if two fall on the same day)
+  const sprintPublicHolidays = publicHolidays.filter(holiday => workingDayKeys.has(toDayKey(holiday.date)));
+  const publicImpactByDay = new Map<string, number>();
+  for (const holiday of sprintPublicHolidays) {
+    const key = toDayKey(holiday.date);
+    const impact = Math.min(100, Math.max(0, holiday.impactPercentage)) / 100;
+    publicImpactByDay.set(key, Math.max(publicImpactByDay.get(key) || 0, impact));
+  }
+
+  const memberDays = teamMembers.map(member => {
+    const holidayDayKeys = new Set<string>();
+    for (const holiday of member.personalHolidays) {
+      for (const day of getWorkingDays(holiday.startDate, holiday.endDate)) {
+        const key = toDayKey(day);
+        if (workingDayKeys.has(key)) {
+          holidayDayKeys.add(key);
+        }
+      }
+    }
+
+    let personDays = 0;
+    let publicHolidayDays = 0;
+    for (const day of workingDays) {
+      const key = toDayKey(day);
+      if (holidayDayKeys.has(key)) continue;
+      const impact = publicImpactByDay.get(key) || 0;
+      publicHolidayDays += impact;
+      personDays += 1 - impact;
+    }
+
+    const capacityFactor = member.capacity / 100;
+    return {
+      member,
+      personalHolidayDays: holidayDayKeys.size,
+      publicHolidayDays,
+      nominalDays: workingDays.length * capacityFactor,
+      availableDays: personDays * capacityFactor
+    };
+  });
+
+  const nominalDays = memberDays.reduce((total, entry) => total + entry.nominalDays, 0);
+  const pointsPerDay = nominalDays > 0 ? sprint.plannedVelocity / nominalDays : 0;
+
+  const members: MemberCapacity[] = memberDays.map(entry => ({
+    teamMemberId: entry.member.id,
+    name: entry.member.name,
+    capacity: entry.member.capacity,
+    skills: entry.member.skills,
+    workingDays: workingDays.length,
+    personalHolidayDays: entry.personalHolidayDays,
+    publicHolidayDays: round(entry.publicHolidayDays),
+    availableDays: round(entry.availableDays),
+    availablePoints: round(entry.availableDays * pointsPerDay)
+  }));
+
+  let availableVelocity: number;
+  if (nominalDays > 0) {
+    availableVelocity = memberDays.reduce((total, entry) => total + entry.availableDays * pointsPerDay, 0);
+  } else {
+    // Without team members we can only account for public holidays
+    const publicImpact = Array.from(publicImpactByDay.values()).reduce((total, impact) => total + impact, 0);
+    const ratio = workingDays.length > 0 ? (workingDays.length - publicImpact) / workingDays.length : 0;
+    availableVelocity = sprint.plannedVelocity * ratio;
+  }
+
+  // A member with several skills counts towards each of them
+  const skills: { [skill: string]: number } = {};
+  for (const member of members) {
+    for (const skill of member.skills) {
+      skills[skill] = round((skills[skill] || 0) + member.availablePoints);
+    }
+  }
+
+  return {
+    sprintId: sprint.id,
+    sprintName: sprint.name,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    workingDays: workingDays.length,
+    publicHolidays: sprintPublicHolidays.map(holiday => ({
+      name: holiday.name,
+      date: holiday.date,
+      impactPercentage: holiday.impactPercentage
+    })),
+    plannedVelocity: sprint.plannedVelocity,
+    availableVelocity: round(availableVelocity),
+    capacityRatio: sprint.plannedVelocity > 0 ? round(availableVelocity / sprint.plannedVelocity) : 0,
+    members,
+    skills
+  };
+}
+
+// Load the team members and public holidays needed by calculateSprintCapacity, optionally for one team.
+// Pass a transaction client to read them inside the transaction that acts on them.
+export async function loadCapacityInputs(teamId?: string, client: Prisma.TransactionClient = prisma): Promise<{
+  teamMembers: CapacityTeamMember[];
+  publicHolidays: CapacityPublicHoliday[];
+}> {
+  const [teamMembers, publicHolidays] = await Promise.all([
+    client.teamMember.findMany({
+      where: { deletedAt: null, ...teamScope(teamId) },
+      include: {
+        personalHolidays: true
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    }),
+    client.publicHoliday.findMany({
+      where: holidayTeamScope(teamId),
+      orderBy: {
+        date: 'asc'
+      }
+    })
+  ]);
+
+  return {
+    teamMembers: teamMembers.map(member => ({
+      id: member.id,
+      name: member.name,
+      capacity: member.capacity,
+      skills: Array.isArray(member.skills) ? (member.skills as string[]) : [],
+      personalHolidays: member.personalHolidays,
+      teamId: member.teamId
+    })),
+    publicHolidays
+  };
+}
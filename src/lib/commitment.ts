@@ -0,0 +1,90 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { calculateSprintCapacity, loadCapacityInputs } from './capacity';
+
+export interface SprintCommitment {
+  sprintId: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  plannedVelocity: number;
+  availableVelocity: number;
+  committedPoints: number;
+  remainingCapacity: number;
+  utilization: number; // committedPoints / availableVelocity
+  overCommitted: boolean;
+}
+
+export interface CommitmentSnapshot {
+  capturedAt: string;
+  committedPoints: number;
+  availableVelocity: number;
+  workItems: { id: string; title: string; storyPoints: number; priority: string; status: string }[];
+}
+
+// Compare the points assigned to each matching sprint with its effective capacity.
+// Epics are containers, so only non-epic work items count towards the commitment.
+export async function loadSprintCommitments(where: Prisma.SprintWhereInput = { archived: false }): Promise<SprintCommitment[]> {
+  const [sprints, { teamMembers, publicHolidays }] = await Promise.all([
+    prisma.sprint.findMany({
+      where,
+      include: {
+        workItemAssignments: {
+          include: {
+            workItem: true
+          }
+        }
+      },
+      orderBy: {
+        startDate: 'asc'
+      }
+    }),
+    loadCapacityInputs()
+  ]);
+
+  return sprints.map(sprint => {
+    const { availableVelocity } = calculateSprintCapacity(sprint, teamMembers, publicHolidays);
+    const committedPoints = sprint.workItemAssignments
+      .filter(assignment => !assignment.workItem.isEpic)
+      .reduce((total, assignment) => total + assignment.workItem.estimateStoryPoints, 0);
+
+    return {
+      sprintId: sprint.id,
+      name: sprint.name,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      plannedVelocity: sprint.plannedVelocity,
+      availableVelocity,
+      committedPoints,
+      remainingCapacity: Math.round((availableVelocity - committedPoints) * 100) / 100,
+      utilization: availableVelocity > 0 ? Math.round((committedPoints / availableVelocity) * 100) / 100 : 0,
+      overCommitted: committedPoints > availableVelocity
+    };
+  });
+}
+
+// Freeze what a sprint is committed to, so delivery can be compared with it after the sprint closes
+export async function captureCommitmentSnapshot(sprintId: string): Promise<CommitmentSnapshot> {
+  const [[commitment], assignments] = await Promise.all([
+    loadSprintCommitments({ id: sprintId }),
+    prisma.sprintWorkItem.findMany({
+      where: { sprintId },
+      include: { workItem: true }
+    })
+  ]);
+
+  return {
+    capturedAt: new Date().toISOString(),
+    committedPoints: commitment ? commitment.committedPoints : 0,
+    availableVelocity: commitment ? commitment.availableVelocity : 0,
+    workItems: assignments
+      .filter(assignment => !assignment.workItem.isEpic)
+      .map(({ workItem }) => ({
+        id: workItem.id,
+        title: workItem.title,
+        storyPoints: workItem.estimateStoryPoints,
+        priority: workItem.priority,
+        status: workItem.status
+      }))
+  };
+}
@@ -0,0 +1,106 @@
+import { buildDependencyMap, topologicalOrder } from './dependencyGraph';
+
+// Floating point tolerance when deciding whether an item has zero slack
+const SLACK_EPSILON = 1e-6;
+
+export interface CriticalPathInput {
+  id: string;
+  storyPoints: number;
+  dependencies: string[];
+  releaseOffsetDays: number; // Earliest day (from now) the item can start, e.g. its sprint start
+}
+
+export interface CriticalPathNode {
+  id: string;
+  durationDays: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slackDays: number;
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  nodes: Map<string, CriticalPathNode>;
+  criticalPath: string[]; // IDs from the first item to the last
+  projectDurationDays: number;
+  cyclic: string[]; // IDs that could not be analysed because of a dependency cycle
+}
+
+// Classic critical path method: a forward pass for earliest start/finish, a backward pass
+// for latest start/finish, and slack as the difference. Durations are in days and
+// dependencies outside of `items` are treated as already finished.
+export function analyseCriticalPath(items: CriticalPathInput[], pointsPerDay: number): CriticalPathResult {
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const dependencyMap = buildDependencyMap(
+    items.flatMap(item => item.dependencies
+      .filter(depId => itemsById.has(depId))
+      .map(dependsOnId => ({ workItemId: item.id, dependsOnId })))
+  );
+  const { order, cyclic } = topologicalOrder(items.map(item => item.id), dependencyMap);
+
+  const nodes = new Map<string, CriticalPathNode>();
+
+  // Forward pass
+  for (const id of order) {
+    const item = itemsById.get(id)!;
+    const durationDays = pointsPerDay > 0 ? item.storyPoints / pointsPerDay : 0;
+    const earliestStart = Math.max(
+      item.releaseOffsetDays,
+      ...(dependencyMap.get(id) || []).map(depId => nodes.get(depId)!.earliestFinish)
+    );
+
+    nodes.set(id, {
+      id,
+      durationDays,
+      earliestStart,
+      earliestFinish: earliestStart + durationDays,
+      latestStart: 0,
+      latestFinish: 0,
+      slackDays: 0,
+      isCritical: false
+    });
+  }
+
+  const projectDurationDays = Math.max(0, ...Array.from(nodes.values()).map(node => node.earliestFinish));
+
+  // Backward pass
+  const dependents = new Map<string, string[]>();
+  for (const id of order) {
+    for (const depId of dependencyMap.get(id) || []) {
+      if (!dependents.has(depId)) {
+        dependents.set(depId, []);
+      }
+      dependents.get(depId)!.push(id);
+    }
+  }
+
+  for (const id of [...order].reverse()) {
+    const node = nodes.get(id)!;
+    node.latestFinish = Math.min(
+      projectDurationDays,
+      ...(dependents.get(id) || []).map(dependentId => nodes.get(dependentId)!.latestStart)
+    );
+    node.latestStart = node.latestFinish - node.durationDays;
+    node.slackDays = Math.max(0, node.latestStart - node.earliestStart);
+    node.isCritical = node.slackDays < SLACK_EPSILON;
+  }
+
+  // Walk back from the item that finishes last through the dependency that holds it up
+  const criticalPath: string[] = [];
+  let current = Array.from(nodes.values())
+    .filter(node => node.isCritical)
+    .sort((a, b) => b.earliestFinish - a.earliestFinish)[0];
+
+  while (current) {
+    criticalPath.unshift(current.id);
+    const start = current.earliestStart;
+    current = (dependencyMap.get(current.id) || [])
+      .map(depId => nodes.get(depId)!)
+      .filter(node => node.isCritical && Math.abs(node.earliestFinish - start) < SLACK_EPSILON)
+      .sort((a, b) => b.durationDays - a.durationDays)[0];
+  }
+
+  return { nodes, criticalPath, projectDurationDays, cyclic };
+}
@@ -0,0 +1,69 @@
+// Minimal RFC 4180 CSV reading and writing: comma separated, fields quoted with double quotes,
+// quotes inside a quoted field doubled, and CRLF or LF line endings.
+
+// Spreadsheets run cells starting with these as formulas. Written fields get a leading apostrophe,
+// which spreadsheets hide, and parseCsv drops it again so exported files import unchanged (values
+// that already start with apostrophes before such a character get one more, to survive the trip).
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+const ESCAPED_FORMULA_PREFIX = /^''*[=+\-@\t\r]/;
+
+function formatField(value: string): string {
+  const field = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(field) || field !== field.trim() ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function unescapeField(field: string): string {
+  return ESCAPED_FORMULA_PREFIX.test(field) ? field.slice(1) : field;
+}
+
+export function formatCsv(rows: string[][]): string {
+  return rows.map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Parse CSV text into rows of fields. Blank lines are skipped, a leading byte order mark
+// (as written by spreadsheet exports) is ignored and formula escapes are removed. Throws on an
+// unterminated quoted field.
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(unescapeField(field));
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(unescapeField(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) throw new Error('Unterminated quoted field');
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
@@ -0,0 +1,210 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RiskSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export const SEVERITY_RANK: { [severity in RiskSeverity]: number } = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+};
+
+const SEVERITIES: RiskSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+export interface RiskWorkItem {
+  id: string;
+  title: string;
+  jiraId: string | null;
+  estimateStoryPoints: number;
+  requiredCompletionDate: Date;
+  status: string;
+  priority: string;
+  isEpic: boolean;
+  epicId: string | null;
+  dependencies: string[];
+  assignedSprintIds: string[];
+}
+
+export interface RiskSprint {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface RiskIssue {
+  type: 'scheduled-after-deadline' | 'unscheduled-near-deadline' | 'dependency-scheduled-later' | 'dependency-unscheduled';
+  severity: RiskSeverity;
+  message: string;
+  dependencyId?: string;
+}
+
+export interface AtRiskItem {
+  workItemId: string;
+  title: string;
+  jiraId: string | null;
+  priority: string;
+  storyPoints: number;
+  requiredCompletionDate: Date;
+  scheduledSprint: { id: string; name: string; endDate: Date } | null;
+  severity: RiskSeverity;
+  issues: RiskIssue[];
+}
+
+export interface EpicRiskGroup {
+  epicId: string | null;
+  epicTitle: string;
+  severity: RiskSeverity;
+  items: AtRiskItem[];
+}
+
+// Severity for an item that is scheduled to finish `daysLate` days after its deadline
+function lateSeverity(daysLate: number): RiskSeverity {
+  if (daysLate > 14) return 'critical';
+  if (daysLate > 0) return 'high';
+  return 'low';
+}
+
+// Severity for an unscheduled item whose deadline is `daysUntilDeadline` days away
+function unscheduledSeverity(daysUntilDeadline: number): RiskSeverity {
+  if (daysUntilDeadline < 0) return 'critical';
+  if (daysUntilDeadline <= 14) return 'high';
+  if (daysUntilDeadline <= 30) return 'medium';
+  return 'low';
+}
+
+// Critical-priority work is bumped one severity level
+function escalate(severity: RiskSeverity, priority: string): RiskSeverity {
+  if (priority !== 'Critical') return severity;
+  return SEVERITIES[Math.max(0, SEVERITY_RANK[severity] - 1)];
+}
+
+function highestSeverity(severities: RiskSeverity[]): RiskSeverity {
+  return severities.reduce<RiskSeverity>(
+    (highest, severity) => SEVERITY_RANK[severity] < SEVERITY_RANK[highest] ? severity : highest,
+    'low'
+  );
+}
+
+// Find unfinished work items whose schedule threatens their required completion date and
+// group them by epic, most severe first
+export function assessDeadlineRisk(
+  workItems: RiskWorkItem[],
+  sprints: RiskSprint[],
+  now: Date,
+  horizonDays: number
+): EpicRiskGroup[] {
+  const sprintsById = new Map(sprints.map(sprint => [sprint.id, sprint]));
+  const itemsById = new Map(workItems.map(item => [item.id, item]));
+  const horizonEnd = now.getTime() + horizonDays * DAY_MS;
+
+  // The sprint an item is (finally) scheduled in is the latest one it is assigned to
+  const latestSprint = (item: RiskWorkItem): RiskSprint | null => {
+    const assigned = item.assignedSprintIds
+      .map(sprintId => sprintsById.get(sprintId))
+      .filter((sprint): sprint is RiskSprint => sprint !== undefined);
+    return assigned.length > 0
+      ? assigned.reduce((latest, sprint) => sprint.endDate > latest.endDate ? sprint : latest)
+      : null;
+  };
+
+  const atRisk: AtRiskItem[] = [];
+
+  for (const item of workItems) {
+    if (item.isEpic || item.status === 'Completed') continue;
+
+    const sprint = latestSprint(item);
+    const deadline = item.requiredCompletionDate.getTime();
+    const issues: RiskIssue[] = [];
+
+    if (sprint && sprint.endDate.getTime() > deadline) {
+      const daysLate = Math.ceil((sprint.endDate.getTime() - deadline) / DAY_MS);
+      issues.push({
+        type: 'scheduled-after-deadline',
+        severity: lateSeverity(daysLate),
+        message: `Scheduled in "${sprint.name}" which ends ${daysLate} day(s) after the required date`
+      });
+    }
+
+    if (!sprint && deadline <= horizonEnd) {
+      const daysUntilDeadline = Math.floor((deadline - now.getTime()) / DAY_MS);
+      issues.push({
+        type: 'unscheduled-near-deadline',
+        severity: unscheduledSeverity(daysUntilDeadline),
+        message: daysUntilDeadline < 0
+          ? `Not scheduled and ${-daysUntilDeadline} day(s) overdue`
+          : `Not scheduled and due in ${daysUntilDeadline} day(s)`
+      });
+    }
+
+    if (sprint) {
+      for (const depId of item.dependencies) {
+        const dependency = itemsById.get(depId);
+        if (!dependency || dependency.status === 'Completed') continue;
+
+        const depSprint = latestSprint(dependency);
+        if (!depSprint) {
+          issues.push({
+            type: 'dependency-unscheduled',
+            severity: 'medium',
+            message: `Depends on "${dependency.title}" which is not scheduled`,
+            dependencyId: dependency.id
+          });
+        } else if (depSprint.startDate > sprint.startDate) {
+          issues.push({
+            type: 'dependency-scheduled-later',
+            severity: 'high',
+            message: `Depends on "${dependency.title}" which is scheduled later, in "${depSprint.name}"`,
+            dependencyId: dependency.id
+          });
+        }
+      }
+    }
+
+    if (issues.length === 0) continue;
+
+    atRisk.push({
+      workItemId: item.id,
+      title: item.title,
+      jiraId: item.jiraId,
+      priority: item.priority,
+      storyPoints: item.estimateStoryPoints,
+      requiredCompletionDate: item.requiredCompletionDate,
+      scheduledSprint: sprint && { id: sprint.id, name: sprint.name, endDate: sprint.endDate },
+      severity: escalate(highestSeverity(issues.map(issue => issue.severity)), item.priority),
+      issues
+    });
+  }
+
+  // Epic children reference their epic by database ID or by Jira key
+  const epicsByKey = new Map<string, RiskWorkItem>();
+  for (const item of workItems) {
+    if (!item.isEpic) continue;
+    epicsByKey.set(item.id, item);
+    if (item.jiraId) epicsByKey.set(item.jiraId, item);
+  }
+
+  const groups = new Map<string | null, EpicRiskGroup>();
+  for (const risk of atRisk) {
+    const item = itemsById.get(risk.workItemId)!;
+    const epic = item.epicId ? epicsByKey.get(item.epicId) : undefined;
+    const key = epic ? epic.id : null;
+
+    if (!groups.has(key)) {
+      groups.set(key, { epicId: key, epicTitle: epic ? epic.title : 'No epic', severity: 'low', items: [] });
+    }
+    groups.get(key)!.items.push(risk);
+  }
+
+  const compareItems = (a: AtRiskItem, b: AtRiskItem) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+    a.requiredCompletionDate.getTime() - b.requiredCompletionDate.getTime();
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      severity: highestSeverity(group.items.map(item => item.severity)),
+      items: group.items.sort(compareItems)
+    }))
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.items.length - a.items.length);
+}
@@ -0,0 +1,141 @@
+// Helpers for working with the WorkItemDependency graph.
+// Edges point from a work item to the item it depends on (workItemId -> dependsOnId).
+
+export interface DependencyEdge {
+  workItemId: string;
+  dependsOnId: string;
+}
+
+// Build an adjacency map of work item ID -> IDs it depends on
+export function buildDependencyMap(edges: DependencyEdge[]): Map<string, string[]> {
+  const dependencyMap = new Map<string, string[]>();
+
+  for (const edge of edges) {
+    if (!dependencyMap.has(edge.workItemId)) {
+      dependencyMap.set(edge.workItemId, []);
+    }
+    dependencyMap.get(edge.workItemId)!.push(edge.dependsOnId);
+  }
+
+  return dependencyMap;
+}
+
+// Order the given IDs so every item comes after the items it depends on.
+// Dependencies outside of `ids` are ignored. When several items are ready at the same
+// time, `compare` decides which goes first. Items that sit on (or behind) a cycle are
+// returned in `cyclic` instead of `order`.
+export function topologicalOrder(
+  ids: string[],
+  dependencyMap: Map<string, string[]>,
+  compare: (a: string, b: string) => number = () => 0
+): { order: string[]; cyclic: string[] } {
+  const idSet = new Set(ids);
+  const remainingDependencies = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  for (const id of ids) {
+    const dependencies = (dependencyMap.get(id) || []).filter(depId => idSet.has(depId) && depId !== id);
+    remainingDependencies.set(id, dependencies.length);
+
+    for (const depId of dependencies) {
+      if (!dependents.has(depId)) {
+        dependents.set(depId, []);
+      }
+      dependents.get(depId)!.push(id);
+    }
+
+    // A self-dependency can never be satisfied
+    if ((dependencyMap.get(id) || []).includes(id)) {
+      remainingDependencies.set(id, Infinity);
+    }
+  }
+
+  const ready = ids.filter(id => remainingDependencies.get(id) === 0);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    ready.sort(compare);
+    const id = ready.shift()!;
+    order.push(id);
+
+    for (const dependentId of dependents.get(id) || []) {
+      const remaining = remainingDependencies.get(dependentId)! - 1;
+      remainingDependencies.set(dependentId, remaining);
+      if (remaining === 0) {
+        ready.push(dependentId);
+      }
+    }
+  }
+
+  const ordered = new Set(order);
+  const cyclic = ids.filter(id => !ordered.has(id));
+
+  return { order, cyclic };
+}
+
+// Find a dependency cycle that passes through `startId`. Returns the cycle as a path
+// that starts and ends with `startId` (e.g. [A, B, A]), or null when there is none.
+export function findCycleThrough(startId: string, dependencyMap: Map<string, string[]>): string[] | null {
+  const visited = new Set<string>();
+  const path: string[] = [startId];
+
+  const visit = (id: string): boolean => {
+    for (const depId of dependencyMap.get(id) || []) {
+      if (depId === startId) {
+        path.push(depId);
+        return true;
+      }
+      if (visited.has(depId)) continue;
+      visited.add(depId);
+      path.push(depId);
+      if (visit(depId)) return true;
+      path.pop();
+    }
+    return false;
+  };
+
+  return visit(startId) ? path : null;
+}
+
+// Find every distinct cycle reachable through a back edge in a depth-first search.
+// Each cycle is returned as a closed path ([A, B, A]) and reported once regardless of
+// which member the search happened to enter it from.
+export function findAllCycles(dependencyMap: Map<string, string[]>): string[][] {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const depId of dependencyMap.get(id) || []) {
+      const depState = state.get(depId);
+      if (depState === 'visiting') {
+        const cycle = stack.slice(stack.lastIndexOf(depId));
+        // Rotate so the smallest ID comes first to recognise the same cycle twice
+        const smallest = cycle.indexOf([...cycle].sort()[0]);
+        const rotated = [...cycle.slice(smallest), ...cycle.slice(0, smallest)];
+        const key = rotated.join('>');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push([...rotated, rotated[0]]);
+        }
+      } else if (!depState) {
+        visit(depId);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of dependencyMap.keys()) {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  }
+
+  return cycles;
+}
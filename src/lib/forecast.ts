@@ -0,0 +1,88 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stop a simulation run after this many sprints (two years of two-week sprints)
+export const MAX_SIMULATED_SPRINTS = 52;
+
+export interface ForecastSprint {
+  id: string;
+  name: string;
+  endDate: Date;
+}
+
+export interface ProjectedSprint {
+  sprintId: string | null; // null when the sprint does not exist yet and is extrapolated
+  sprintName: string;
+  sprintsFromNow: number;
+  completionDate: Date;
+}
+
+// Run Monte Carlo simulations that draw a random historical velocity for every future
+// sprint until the remaining points are burnt down. Returns the number of sprints each
+// run needed, sorted ascending. Runs that never finish are reported as Infinity.
+export function simulateSprintsToComplete(
+  remainingPoints: number,
+  velocities: number[],
+  simulations: number,
+  random: () => number = Math.random
+): number[] {
+  const usableVelocities = velocities.filter(velocity => velocity > 0);
+  const results: number[] = [];
+
+  for (let run = 0; run < simulations; run++) {
+    if (remainingPoints <= 0) {
+      results.push(0);
+      continue;
+    }
+    if (usableVelocities.length === 0) {
+      results.push(Infinity);
+      continue;
+    }
+
+    let remaining = remainingPoints;
+    let sprints = 0;
+    while (remaining > 0 && sprints < MAX_SIMULATED_SPRINTS) {
+      remaining -= usableVelocities[Math.floor(random() * usableVelocities.length)];
+      sprints++;
+    }
+    results.push(remaining > 0 ? Infinity : sprints);
+  }
+
+  return results.sort((a, b) => a - b);
+}
+
+// Nearest-rank percentile of an ascending list (p between 0 and 100)
+export function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return Infinity;
+  const rank = Math.ceil((p / 100) * sortedValues.length);
+  return sortedValues[Math.min(sortedValues.length, Math.max(1, rank)) - 1];
+}
+
+// Map "n sprints from now" onto a real upcoming sprint, or extrapolate past the last one
+// using the configured sprint length
+export function projectSprint(
+  upcomingSprints: ForecastSprint[],
+  sprintsFromNow: number,
+  sprintDurationDays: number,
+  fromDate: Date = new Date()
+): ProjectedSprint {
+  if (sprintsFromNow <= 0) {
+    return { sprintId: null, sprintName: 'Already complete', sprintsFromNow: 0, completionDate: fromDate };
+  }
+
+  if (sprintsFromNow <= upcomingSprints.length) {
+    const sprint = upcomingSprints[sprintsFromNow - 1];
+    return { sprintId: sprint.id, sprintName: sprint.name, sprintsFromNow, completionDate: sprint.endDate };
+  }
+
+  const lastEnd = upcomingSprints.length > 0
+    ? upcomingSprints[upcomingSprints.length - 1].endDate.getTime()
+    : fromDate.getTime();
+  const extraSprints = sprintsFromNow - upcomingSprints.length;
+
+  return {
+    sprintId: null,
+    sprintName: `Projected sprint +${extraSprints}`,
+    sprintsFromNow,
+    completionDate: new Date(lastEnd + extraSprints * sprintDurationDays * DAY_MS)
+  };
+}
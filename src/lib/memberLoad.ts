@@ -0,0 +1,79 @@
+import { prisma } from './prisma';
+import { calculateSprintCapacity, loadCapacityInputs } from './capacity';
+import { teamScope } from './teamScope';
+
+export interface MemberSprintLoad {
+  sprintId: string;
+  sprintName: string;
+  startDate: Date;
+  endDate: Date;
+  assignedPoints: number;
+  availablePoints: number;
+  overloaded: boolean;
+  workItems: { id: string; title: string; storyPoints: number }[];
+}
+
+export interface MemberLoad {
+  teamMemberId: string;
+  name: string;
+  capacity: number;
+  sprints: MemberSprintLoad[];
+}
+
+// Sum the points each team member is assigned in every non-archived sprint of their team and
+// compare them with the member's holiday-adjusted share of the sprint capacity
+export async function loadMemberLoad(teamMemberIds?: string[], teamId?: string): Promise<MemberLoad[]> {
+  const [sprints, { teamMembers, publicHolidays }] = await Promise.all([
+    prisma.sprint.findMany({
+      where: {
+        archived: false,
+        ...teamScope(teamId)
+      },
+      include: {
+        workItemAssignments: {
+          include: {
+            workItem: true
+          }
+        }
+      },
+      orderBy: {
+        startDate: 'asc'
+      }
+    }),
+    loadCapacityInputs(teamId)
+  ]);
+
+  const capacities = sprints.map(sprint => calculateSprintCapacity(sprint, teamMembers, publicHolidays));
+
+  return teamMembers
+    .filter(member => !teamMemberIds || teamMemberIds.includes(member.id))
+    .map(member => ({
+      teamMemberId: member.id,
+      name: member.name,
+      capacity: member.capacity,
+      sprints: sprints.flatMap((sprint, index) => {
+        if (sprint.teamId !== (member.teamId ?? null)) return [];
+
+        const workItems = sprint.workItemAssignments
+          .map(assignment => assignment.workItem)
+          .filter(workItem => !workItem.isEpic && workItem.assigneeId === member.id);
+        const assignedPoints = workItems.reduce((total, workItem) => total + workItem.estimateStoryPoints, 0);
+        const availablePoints = capacities[index].members.find(entry => entry.teamMemberId === member.id)?.availablePoints || 0;
+
+        return [{
+          sprintId: sprint.id,
+          sprintName: sprint.name,
+          startDate: sprint.startDate,
+          endDate: sprint.endDate,
+          assignedPoints,
+          availablePoints,
+          overloaded: assignedPoints > availablePoints,
+          workItems: workItems.map(workItem => ({
+            id: workItem.id,
+            title: workItem.title,
+            storyPoints: workItem.estimateStoryPoints
+          }))
+        }];
+      })
+    }));
+}
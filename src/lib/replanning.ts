@@ -0,0 +1,178 @@
+import { prisma } from './prisma';
+import { loadSprintCommitments, SprintCommitment } from './commitment';
+import { PRIORITY_RANK } from './scheduler';
+
+export interface ReplanningWorkItem {
+  id: string;
+  title: string;
+  priority: string;
+  status: string;
+  estimateStoryPoints: number;
+  requiredCompletionDate: Date;
+  dependentIds: string[];
+  assignedSprintIds: string[];
+}
+
+export interface SuggestedMove {
+  workItemId: string;
+  title: string;
+  priority: string;
+  storyPoints: number;
+  fromSprintId: string;
+  fromSprintName: string;
+  toSprintId: string;
+  toSprintName: string;
+  reason: string;
+}
+
+export interface UnresolvedOverCommitment {
+  sprintId: string;
+  sprintName: string;
+  excessPoints: number;
+}
+
+export interface ReplanningReport {
+  affectedSprints: SprintCommitment[];
+  moves: SuggestedMove[];
+  unresolved: UnresolvedOverCommitment[];
+}
+
+// Round to two decimal places for API output
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Lowest priority first, then the item with the most slack before its deadline
+function compareMoveCandidates(a: ReplanningWorkItem, b: ReplanningWorkItem): number {
+  const rankA = PRIORITY_RANK[a.priority] ?? PRIORITY_RANK.Medium;
+  const rankB = PRIORITY_RANK[b.priority] ?? PRIORITY_RANK.Medium;
+  if (rankA !== rankB) return rankB - rankA;
+
+  return b.requiredCompletionDate.getTime() - a.requiredCompletionDate.getTime();
+}
+
+// Suggest the fewest low-priority moves that bring every over-committed affected sprint back
+// within capacity. Only work that has not started is moved, always to the next later target sprint
+// with room, and never past a sprint where one of its dependents is already scheduled.
+export function planMoves(
+  commitments: SprintCommitment[],
+  workItems: ReplanningWorkItem[],
+  affectedSprintIds: string[],
+  targetSprintIds: string[] // Sprints work may be moved into
+): { moves: SuggestedMove[]; unresolved: UnresolvedOverCommitment[] } {
+  const sprints = [...commitments].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  const sprintsById = new Map(sprints.map(sprint => [sprint.sprintId, sprint]));
+  const remaining = new Map(sprints.map(sprint => [sprint.sprintId, sprint.availableVelocity - sprint.committedPoints]));
+  const assignments = new Map(workItems.map(item => [item.id, new Set(item.assignedSprintIds)]));
+
+  // Earliest start of any sprint a dependent of this item is scheduled in
+  const earliestDependentStart = (item: ReplanningWorkItem): number => {
+    let earliest = Infinity;
+    for (const dependentId of item.dependentIds) {
+      for (const sprintId of assignments.get(dependentId) || []) {
+        const sprint = sprintsById.get(sprintId);
+        if (sprint) earliest = Math.min(earliest, sprint.startDate.getTime());
+      }
+    }
+    return earliest;
+  };
+
+  const moves: SuggestedMove[] = [];
+  const unresolved: UnresolvedOverCommitment[] = [];
+
+  for (const source of sprints) {
+    if (!affectedSprintIds.includes(source.sprintId) || remaining.get(source.sprintId)! >= 0) continue;
+
+    const candidates = workItems
+      .filter(item => item.status === 'Not Started' && assignments.get(item.id)!.has(source.sprintId))
+      .sort(compareMoveCandidates);
+
+    for (const item of candidates) {
+      if (remaining.get(source.sprintId)! >= 0) break;
+
+      const dependentStart = earliestDependentStart(item);
+      const target = sprints.find(sprint =>
+        targetSprintIds.includes(sprint.sprintId) &&
+        sprint.startDate > source.startDate &&
+        sprint.startDate.getTime() < dependentStart &&
+        !assignments.get(item.id)!.has(sprint.sprintId) &&
+        remaining.get(sprint.sprintId)! >= item.estimateStoryPoints
+      );
+      if (!target) continue;
+
+      remaining.set(source.sprintId, remaining.get(source.sprintId)! + item.estimateStoryPoints);
+      remaining.set(target.sprintId, remaining.get(target.sprintId)! - item.estimateStoryPoints);
+      assignments.get(item.id)!.delete(source.sprintId);
+      assignments.get(item.id)!.add(target.sprintId);
+
+      moves.push({
+        workItemId: item.id,
+        title: item.title,
+        priority: item.priority,
+        storyPoints: item.estimateStoryPoints,
+        fromSprintId: source.sprintId,
+        fromSprintName: source.name,
+        toSprintId: target.sprintId,
+        toSprintName: target.name,
+        reason: `"${source.name}" is over capacity; "${target.name}" is the next sprint with room`
+      });
+    }
+
+    const excess = -remaining.get(source.sprintId)!;
+    if (excess > 0) {
+      unresolved.push({
+        sprintId: source.sprintId,
+        sprintName: source.name,
+        excessPoints: round(excess)
+      });
+    }
+  }
+
+  return { moves, unresolved };
+}
+
+// Re-evaluate the capacity of the open (planned or active) sprints overlapping a date range (e.g. a
+// personal holiday that was just added or removed) and suggest moves for any that are now over-committed.
+// Work is only suggested to move into planned sprints; closed sprints are never touched.
+// A teamId (null for team-less sprints) limits this to one team's sprints and work items.
+export async function suggestReplanning(startDate: Date, endDate: Date, teamId?: string | null): Promise<ReplanningReport> {
+  const scope = teamId !== undefined ? { teamId } : {};
+  const [commitments, plannedSprints, workItems] = await Promise.all([
+    loadSprintCommitments({ archived: false, state: { not: 'closed' }, ...scope }),
+    prisma.sprint.findMany({
+      where: { archived: false, state: 'planned', ...scope },
+      select: { id: true }
+    }),
+    prisma.workItem.findMany({
+      where: {
+        isEpic: false,
+        deletedAt: null,
+        ...scope
+      },
+      include: {
+        dependentWorkItems: true,
+        sprintAssignments: true
+      }
+    })
+  ]);
+
+  const affectedSprints = commitments.filter(sprint => sprint.startDate <= endDate && sprint.endDate >= startDate);
+
+  const { moves, unresolved } = planMoves(
+    commitments,
+    workItems.map(item => ({
+      id: item.id,
+      title: item.title,
+      priority: item.priority,
+      status: item.status,
+      estimateStoryPoints: item.estimateStoryPoints,
+      requiredCompletionDate: item.requiredCompletionDate,
+      dependentIds: item.dependentWorkItems.map(dep => dep.workItemId),
+      assignedSprintIds: item.sprintAssignments.map(assignment => assignment.sprintId)
+    })),
+    affectedSprints.map(sprint => sprint.sprintId),
+    plannedSprints.map(sprint => sprint.id)
+  );
+
+  return { affectedSprints, moves, unresolved };
+}
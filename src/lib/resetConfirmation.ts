@@ -0,0 +1,56 @@
+import { randomBytes } from 'crypto';
+import { AuthUser } from './auth';
+
+export type ResetOperation = 'reset-database' | 'selective-reset' | 'clear-all';
+
+// Confirmation tokens are deliberately short-lived and held in memory only; a restart just means asking again
+export const CONFIRMATION_TTL_SECONDS = 2 * 60;
+
+interface PendingConfirmation {
+  operation: ResetOperation;
+  paramsKey: string;
+  userId: string;
+  expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+// Parameters are compared by value, so list them in a stable order before keying on them
+function paramsKeyOf(params: Record<string, unknown>): string {
+  return JSON.stringify(Object.keys(params).sort().map(key => [key, params[key]]));
+}
+
+// Issue a single-use token that confirms exactly this operation, with these parameters, for this caller
+export function issueConfirmation(
+  operation: ResetOperation,
+  params: Record<string, unknown>,
+  user: AuthUser
+): { confirmationToken: string; expiresAt: Date } {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) pendingConfirmations.delete(token);
+  }
+
+  const confirmationToken = randomBytes(16).toString('hex');
+  const expiresAt = now + CONFIRMATION_TTL_SECONDS * 1000;
+  pendingConfirmations.set(confirmationToken, { operation, paramsKey: paramsKeyOf(params), userId: user.id, expiresAt });
+
+  return { confirmationToken, expiresAt: new Date(expiresAt) };
+}
+
+// Use up a token; returns false when it is unknown, expired, or was issued for something else
+export function consumeConfirmation(
+  confirmationToken: string,
+  operation: ResetOperation,
+  params: Record<string, unknown>,
+  user: AuthUser
+): boolean {
+  const pending = pendingConfirmations.get(confirmationToken);
+  if (!pending) return false;
+
+  pendingConfirmations.delete(confirmationToken);
+  return pending.expiresAt > Date.now() &&
+    pending.operation === operation &&
+    pending.paramsKey === paramsKeyOf(params) &&
+    pending.userId === user.id;
+}
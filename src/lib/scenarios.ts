@@ -0,0 +1,548 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { calculateSprintCapacity, CapacityPublicHoliday, CapacityTeamMember } from './capacity';
+import { holidayTeamScope, teamScope } from './teamScope';
+import { recordWorkItemChanges, WorkItemChange } from './workItemHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A scenario's forked copy of the plan. IDs of forked rows match the live rows so a
+// scenario can be compared with (and promoted over) the live plan; rows added inside
+// the scenario get fresh IDs.
+export interface ScenarioPlan {
+  teamMembers: {
+    id: string;
+    name: string;
+    capacity: number;
+    skills: string[];
+    teamId?: string | null;
+    personalHolidays: {
+      id: string;
+      startDate: string;
+      endDate: string;
+      description: string | null;
+    }[];
+  }[];
+  publicHolidays: {
+    id: string;
+    name: string;
+    date: string;
+    impactPercentage: number;
+    teamId?: string | null; // null for holidays shared by every team
+  }[];
+  sprints: {
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    plannedVelocity: number;
+    actualVelocity: number | null;
+    teamId?: string | null;
+    workItems: string[];
+  }[];
+  excludedWorkItemIds: string[]; // Work items (or whole epics) dropped in this scenario
+}
+
+export interface PlanWorkItem {
+  id: string;
+  title: string;
+  jiraId: string | null;
+  estimateStoryPoints: number;
+  requiredCompletionDate: Date;
+  status: string;
+  isEpic: boolean;
+  epicId: string | null;
+}
+
+export interface PlanEvaluation {
+  sprints: {
+    sprintId: string;
+    name: string;
+    startDate: Date;
+    endDate: Date;
+    plannedVelocity: number;
+    availableVelocity: number;
+    committedPoints: number;
+    overCommitted: boolean;
+  }[];
+  lateItems: {
+    workItemId: string;
+    title: string;
+    requiredCompletionDate: Date;
+    scheduledEndDate: Date;
+  }[];
+  epics: {
+    epicId: string;
+    title: string;
+    requiredCompletionDate: Date;
+    state: 'complete' | 'scheduled' | 'unscheduled';
+    completionDate: Date | null; // End of the last sprint holding unfinished work, when all of it is scheduled
+    unscheduledPoints: number;
+  }[];
+}
+
+// Copy the live sprints, assignments, team and holidays (of one team, when given) into a scenario plan
+export async function forkLivePlan(teamId?: string): Promise<ScenarioPlan> {
+  const [teamMembers, publicHolidays, sprints] = await Promise.all([
+    prisma.teamMember.findMany({
+      where: { deletedAt: null, ...teamScope(teamId) },
+      include: {
+        personalHolidays: true
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    }),
+    prisma.publicHoliday.findMany({
+      where: holidayTeamScope(teamId),
+      orderBy: {
+        date: 'asc'
+      }
+    }),
+    prisma.sprint.findMany({
+      where: {
+        archived: false,
+        ...teamScope(teamId)
+      },
+      include: {
+        workItemAssignments: true
+      },
+      orderBy: {
+        startDate: 'asc'
+      }
+    })
+  ]);
+
+  return {
+    teamMembers: teamMembers.map(member => ({
+      id: member.id,
+      name: member.name,
+      capacity: member.capacity,
+      skills: Array.isArray(member.skills) ? (member.skills as string[]) : [],
+      teamId: member.teamId,
+      personalHolidays: member.personalHolidays.map(holiday => ({
+        id: holiday.id,
+        startDate: holiday.startDate.toISOString(),
+        endDate: holiday.endDate.toISOString(),
+        description: holiday.description
+      }))
+    })),
+    publicHolidays: publicHolidays.map(holiday => ({
+      id: holiday.id,
+      name: holiday.name,
+      date: holiday.date.toISOString(),
+      impactPercentage: holiday.impactPercentage,
+      teamId: holiday.teamId
+    })),
+    sprints: sprints.map(sprint => ({
+      id: sprint.id,
+      name: sprint.name,
+      startDate: sprint.startDate.toISOString(),
+      endDate: sprint.endDate.toISOString(),
+      plannedVelocity: sprint.plannedVelocity,
+      actualVelocity: sprint.actualVelocity,
+      teamId: sprint.teamId,
+      workItems: sprint.workItemAssignments.map(assignment => assignment.workItemId)
+    })),
+    excludedWorkItemIds: []
+  };
+}
+
+// Load the work items a plan refers to (scenarios never fork the work items themselves)
+export async function loadPlanWorkItems(): Promise<PlanWorkItem[]> {
+  return prisma.workItem.findMany({
+    where: { deletedAt: null },
+    select: {
+      id: true,
+      title: true,
+      jiraId: true,
+      estimateStoryPoints: true,
+      requiredCompletionDate: true,
+      status: true,
+      isEpic: true,
+      epicId: true
+    }
+  });
+}
+
+// Expand excluded epics to their children so dropping an epic drops all of its work
+export function expandExclusions(excludedIds: string[], workItems: PlanWorkItem[]): Set<string> {
+  const excluded = new Set(excludedIds);
+  const excludedEpicKeys = new Set<string>();
+
+  for (const item of workItems) {
+    if (item.isEpic && excluded.has(item.id)) {
+      excludedEpicKeys.add(item.id);
+      if (item.jiraId) excludedEpicKeys.add(item.jiraId);
+    }
+  }
+
+  for (const item of workItems) {
+    if (item.epicId && excludedEpicKeys.has(item.epicId)) {
+      excluded.add(item.id);
+    }
+  }
+
+  return excluded;
+}
+
+// Convert the plan's team and holidays into capacity calculation inputs
+export function planCapacityInputs(plan: ScenarioPlan): {
+  teamMembers: CapacityTeamMember[];
+  publicHolidays: CapacityPublicHoliday[];
+} {
+  return {
+    teamMembers: plan.teamMembers.map(member => ({
+      id: member.id,
+      name: member.name,
+      capacity: member.capacity,
+      skills: member.skills,
+      teamId: member.teamId,
+      personalHolidays: member.personalHolidays.map(holiday => ({
+        startDate: new Date(holiday.startDate),
+        endDate: new Date(holiday.endDate)
+      }))
+    })),
+    publicHolidays: plan.publicHolidays.map(holiday => ({
+      name: holiday.name,
+      date: new Date(holiday.date),
+      impactPercentage: holiday.impactPercentage,
+      teamId: holiday.teamId
+    }))
+  };
+}
+
+// Work out capacity, late items and epic completion dates for a plan
+export function evaluatePlan(plan: ScenarioPlan, workItems: PlanWorkItem[]): PlanEvaluation {
+  const excluded = expandExclusions(plan.excludedWorkItemIds, workItems);
+  const itemsById = new Map(workItems.map(item => [item.id, item]));
+  const { teamMembers, publicHolidays } = planCapacityInputs(plan);
+
+  // Latest sprint end date per assigned work item
+  const scheduledEnd = new Map<string, Date>();
+
+  const sprints = plan.sprints.map(planSprint => {
+    const sprint = {
+      id: planSprint.id,
+      name: planSprint.name,
+      startDate: new Date(planSprint.startDate),
+      endDate: new Date(planSprint.endDate),
+      plannedVelocity: planSprint.plannedVelocity,
+      ...(planSprint.teamId !== undefined && { teamId: planSprint.teamId })
+    };
+    const capacity = calculateSprintCapacity(sprint, teamMembers, publicHolidays);
+
+    let committedPoints = 0;
+    for (const workItemId of planSprint.workItems) {
+      const item = itemsById.get(workItemId);
+      if (!item || item.isEpic || excluded.has(workItemId)) continue;
+      committedPoints += item.estimateStoryPoints;
+
+      const currentEnd = scheduledEnd.get(workItemId);
+      if (!currentEnd || currentEnd < sprint.endDate) {
+        scheduledEnd.set(workItemId, sprint.endDate);
+      }
+    }
+
+    return {
+      sprintId: sprint.id,
+      name: sprint.name,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      plannedVelocity: sprint.plannedVelocity,
+      availableVelocity: capacity.availableVelocity,
+      committedPoints,
+      overCommitted: committedPoints > capacity.availableVelocity
+    };
+  });
+
+  const lateItems = workItems
+    .filter(item => !item.isEpic && item.status !== 'Completed' && !excluded.has(item.id))
+    .filter(item => {
+      const end = scheduledEnd.get(item.id);
+      return end !== undefined && end > item.requiredCompletionDate;
+    })
+    .map(item => ({
+      workItemId: item.id,
+      title: item.title,
+      requiredCompletionDate: item.requiredCompletionDate,
+      scheduledEndDate: scheduledEnd.get(item.id)!
+    }));
+
+  const epics = workItems
+    .filter(item => item.isEpic && !excluded.has(item.id))
+    .map(epic => {
+      const children = workItems.filter(child =>
+        !child.isEpic && (child.epicId === epic.id || (epic.jiraId !== null && child.epicId === epic.jiraId))
+      );
+      const openChildren = children.filter(child => child.status !== 'Completed');
+      const unscheduled = openChildren.filter(child => !scheduledEnd.has(child.id));
+      const ends = openChildren
+        .map(child => scheduledEnd.get(child.id))
+        .filter((end): end is Date => end !== undefined);
+
+      return {
+        epicId: epic.id,
+        title: epic.title,
+        requiredCompletionDate: epic.requiredCompletionDate,
+        state: openChildren.length === 0 ? 'complete' as const : unscheduled.length > 0 ? 'unscheduled' as const : 'scheduled' as const,
+        completionDate: unscheduled.length === 0 && ends.length > 0
+          ? new Date(Math.max(...ends.map(end => end.getTime())))
+          : null,
+        unscheduledPoints: unscheduled.reduce((total, child) => total + child.estimateStoryPoints, 0)
+      };
+    });
+
+  return { sprints, lateItems, epics };
+}
+
+// Diff a scenario evaluation against the live one
+export function comparePlans(live: PlanEvaluation, scenario: PlanEvaluation) {
+  const liveSprints = new Map(live.sprints.map(sprint => [sprint.sprintId, sprint]));
+  const scenarioSprints = new Map(scenario.sprints.map(sprint => [sprint.sprintId, sprint]));
+  const sprintIds = Array.from(new Set([...liveSprints.keys(), ...scenarioSprints.keys()]));
+
+  const capacity = sprintIds.map(sprintId => {
+    const liveSprint = liveSprints.get(sprintId) || null;
+    const scenarioSprint = scenarioSprints.get(sprintId) || null;
+    return {
+      sprintId,
+      name: (scenarioSprint || liveSprint)!.name,
+      startDate: (scenarioSprint || liveSprint)!.startDate,
+      live: liveSprint && {
+        availableVelocity: liveSprint.availableVelocity,
+        committedPoints: liveSprint.committedPoints,
+        overCommitted: liveSprint.overCommitted
+      },
+      scenario: scenarioSprint && {
+        availableVelocity: scenarioSprint.availableVelocity,
+        committedPoints: scenarioSprint.committedPoints,
+        overCommitted: scenarioSprint.overCommitted
+      },
+      availableVelocityDelta: (scenarioSprint?.availableVelocity || 0) - (liveSprint?.availableVelocity || 0),
+      committedPointsDelta: (scenarioSprint?.committedPoints || 0) - (liveSprint?.committedPoints || 0)
+    };
+  }).sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  const liveLateIds = new Set(live.lateItems.map(item => item.workItemId));
+  const scenarioLateIds = new Set(scenario.lateItems.map(item => item.workItemId));
+
+  const liveEpics = new Map(live.epics.map(epic => [epic.epicId, epic]));
+  const epics = scenario.epics.map(epic => {
+    const liveEpic = liveEpics.get(epic.epicId);
+    const liveDate = liveEpic?.completionDate || null;
+    return {
+      epicId: epic.epicId,
+      title: epic.title,
+      requiredCompletionDate: epic.requiredCompletionDate,
+      liveState: liveEpic?.state || null,
+      scenarioState: epic.state,
+      liveCompletionDate: liveDate,
+      scenarioCompletionDate: epic.completionDate,
+      deltaDays: liveDate && epic.completionDate
+        ? Math.round((epic.completionDate.getTime() - liveDate.getTime()) / DAY_MS)
+        : null
+    };
+  });
+  const droppedEpics = live.epics
+    .filter(epic => !scenario.epics.some(scenarioEpic => scenarioEpic.epicId === epic.epicId))
+    .map(epic => ({ epicId: epic.epicId, title: epic.title }));
+
+  return {
+    capacity,
+    totals: {
+      liveAvailableVelocity: live.sprints.reduce((total, sprint) => total + sprint.availableVelocity, 0),
+      scenarioAvailableVelocity: scenario.sprints.reduce((total, sprint) => total + sprint.availableVelocity, 0),
+      liveOverCommittedSprints: live.sprints.filter(sprint => sprint.overCommitted).length,
+      scenarioOverCommittedSprints: scenario.sprints.filter(sprint => sprint.overCommitted).length
+    },
+    lateItems: {
+      live: live.lateItems,
+      scenario: scenario.lateItems,
+      newlyLate: scenario.lateItems.filter(item => !liveLateIds.has(item.workItemId)),
+      noLongerLate: live.lateItems.filter(item => !scenarioLateIds.has(item.workItemId))
+    },
+    epics,
+    droppedEpics
+  };
+}
+
+// Replace the live sprints, assignments, team and holidays with a scenario's plan, changing only what differs.
+// Rows created after the fork (forkedAt) are left alone, as are archived, active and closed sprints and trashed
+// team members. Forked members dropped from the scenario go to the trash, dropped planned sprints are archived,
+// and excluded work items are unassigned but not deleted. Every assignment change is recorded in the work item history.
+// A team scenario only replaces that team's rows; holidays shared by every team are kept as they are.
+export async function promotePlan(
+  tx: Prisma.TransactionClient,
+  plan: ScenarioPlan,
+  workItems: PlanWorkItem[],
+  forkedAt: Date,
+  teamId?: string
+) {
+  const excluded = expandExclusions(plan.excludedWorkItemIds, workItems);
+  const existingWorkItemIds = new Set(workItems.map(item => item.id));
+  const assignmentChanges: WorkItemChange[] = [];
+  const counts = {
+    teamMembers: 0,
+    personalHolidays: 0,
+    publicHolidays: 0,
+    sprints: 0,
+    assignments: 0,
+    removedTeamMembers: 0,
+    removedPersonalHolidays: 0,
+    removedPublicHolidays: 0,
+    removedSprints: 0,
+    removedAssignments: 0,
+    skippedSprints: 0
+  };
+
+  // Team members and their personal holidays
+  const planMemberIds = plan.teamMembers.map(member => member.id);
+  const removedMembers = await tx.teamMember.updateMany({
+    where: { id: { notIn: planMemberIds }, deletedAt: null, createdAt: { lte: forkedAt }, ...teamScope(teamId) },
+    data: { deletedAt: new Date() }
+  });
+  counts.removedTeamMembers = removedMembers.count;
+
+  // Members trashed since the fork stay in the trash with their holidays
+  const trashedMemberIds = new Set((await tx.teamMember.findMany({
+    where: { id: { in: planMemberIds }, deletedAt: { not: null } },
+    select: { id: true }
+  })).map(member => member.id));
+  const planMembers = plan.teamMembers.filter(member => !trashedMemberIds.has(member.id));
+
+  for (const member of planMembers) {
+    await tx.teamMember.upsert({
+      where: { id: member.id },
+      create: { id: member.id, name: member.name, capacity: member.capacity, skills: member.skills, teamId: member.teamId ?? teamId ?? null },
+      update: { name: member.name, capacity: member.capacity, skills: member.skills }
+    });
+    counts.teamMembers++;
+  }
+
+  const personalHolidays = planMembers.flatMap(member => member.personalHolidays.map(holiday => ({
+    id: holiday.id,
+    teamMemberId: member.id,
+    startDate: new Date(holiday.startDate),
+    endDate: new Date(holiday.endDate),
+    description: holiday.description
+  })));
+  const removedPersonalHolidays = await tx.personalHoliday.deleteMany({
+    where: {
+      teamMemberId: { in: planMembers.map(member => member.id) },
+      id: { notIn: personalHolidays.map(holiday => holiday.id) },
+      createdAt: { lte: forkedAt }
+    }
+  });
+  counts.removedPersonalHolidays = removedPersonalHolidays.count;
+  for (const { id, ...data } of personalHolidays) {
+    await tx.personalHoliday.upsert({
+      where: { id },
+      create: { id, ...data },
+      update: data
+    });
+    counts.personalHolidays++;
+  }
+
+  // Public holidays
+  const planHolidays = teamId ? plan.publicHolidays.filter(holiday => holiday.teamId !== null) : plan.publicHolidays;
+  const removedPublicHolidays = await tx.publicHoliday.deleteMany({
+    where: { id: { notIn: planHolidays.map(holiday => holiday.id) }, createdAt: { lte: forkedAt }, ...teamScope(teamId) }
+  });
+  counts.removedPublicHolidays = removedPublicHolidays.count;
+  for (const holiday of planHolidays) {
+    const data = {
+      name: holiday.name,
+      date: new Date(holiday.date),
+      impactPercentage: holiday.impactPercentage,
+      teamId: holiday.teamId ?? teamId ?? null
+    };
+    await tx.publicHoliday.upsert({
+      where: { id: holiday.id },
+      create: { id: holiday.id, ...data },
+      update: data
+    });
+    counts.publicHolidays++;
+  }
+
+  // Sprints and their assignments. Forked planned sprints dropped from the scenario are archived and emptied.
+  const planSprintIds = plan.sprints.map(sprint => sprint.id);
+  const removedSprints = await tx.sprint.findMany({
+    where: {
+      archived: false,
+      state: 'planned', // Started and closed sprints are history, not plan
+      id: { notIn: planSprintIds },
+      createdAt: { lte: forkedAt },
+      ...teamScope(teamId)
+    },
+    include: { workItemAssignments: true }
+  });
+  for (const sprint of removedSprints) {
+    await tx.sprintWorkItem.deleteMany({ where: { sprintId: sprint.id } });
+    await tx.sprint.update({ where: { id: sprint.id }, data: { archived: true } });
+    assignmentChanges.push(...sprint.workItemAssignments.map(assignment => ({
+      workItemId: assignment.workItemId,
+      field: 'sprint',
+      oldValue: sprint.id,
+      newValue: null
+    })));
+    counts.removedAssignments += sprint.workItemAssignments.length;
+  }
+  counts.removedSprints = removedSprints.length;
+
+  // Sprints that have started or closed since the fork keep their live dates, velocity and assignments
+  const startedSprintIds = new Set((await tx.sprint.findMany({
+    where: { id: { in: planSprintIds }, state: { not: 'planned' } },
+    select: { id: true }
+  })).map(sprint => sprint.id));
+
+  for (const sprint of plan.sprints) {
+    if (startedSprintIds.has(sprint.id)) {
+      counts.skippedSprints++;
+      continue;
+    }
+
+    const data = {
+      name: sprint.name,
+      startDate: new Date(sprint.startDate),
+      endDate: new Date(sprint.endDate),
+      plannedVelocity: sprint.plannedVelocity,
+      actualVelocity: sprint.actualVelocity,
+      teamId: sprint.teamId ?? teamId ?? null
+    };
+    await tx.sprint.upsert({
+      where: { id: sprint.id },
+      create: { id: sprint.id, ...data },
+      update: data
+    });
+    counts.sprints++;
+
+    // Only drop and add the differences, so assignments already in place keep their assignedAt
+    const planWorkItemIds = sprint.workItems.filter(workItemId => existingWorkItemIds.has(workItemId) && !excluded.has(workItemId));
+    const liveWorkItemIds = (await tx.sprintWorkItem.findMany({
+      where: { sprintId: sprint.id },
+      select: { workItemId: true }
+    })).map(assignment => assignment.workItemId);
+    const removed = liveWorkItemIds.filter(workItemId => !planWorkItemIds.includes(workItemId));
+    const added = planWorkItemIds.filter(workItemId => !liveWorkItemIds.includes(workItemId));
+
+    if (removed.length > 0) {
+      await tx.sprintWorkItem.deleteMany({ where: { sprintId: sprint.id, workItemId: { in: removed } } });
+    }
+    if (added.length > 0) {
+      await tx.sprintWorkItem.createMany({
+        data: added.map(workItemId => ({ sprintId: sprint.id, workItemId }))
+      });
+    }
+    assignmentChanges.push(
+      ...removed.map(workItemId => ({ workItemId, field: 'sprint', oldValue: sprint.id, newValue: null })),
+      ...added.map(workItemId => ({ workItemId, field: 'sprint', oldValue: null, newValue: sprint.id }))
+    );
+    counts.assignments += added.length;
+    counts.removedAssignments += removed.length;
+  }
+
+  await recordWorkItemChanges(tx, assignmentChanges, 'manual');
+
+  return counts;
+}
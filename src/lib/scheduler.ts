@@ -0,0 +1,261 @@
+import { buildDependencyMap, topologicalOrder } from './dependencyGraph';
+
+// Lower rank is scheduled first
+export const PRIORITY_RANK: { [priority: string]: number } = {
+  Critical: 0,
+  High: 1,
+  Medium: 2,
+  Low: 3
+};
+
+export interface SchedulableWorkItem {
+  id: string;
+  title: string;
+  estimateStoryPoints: number;
+  requiredCompletionDate: Date;
+  requiredSkills: string[];
+  status: string;
+  priority: string;
+  dependencies: string[];
+  assignedSprintIds: string[];
+  assigneeId: string | null;
+}
+
+export interface SchedulableMember {
+  id: string;
+  name: string;
+  skills: string[];
+}
+
+export interface SchedulableSprint {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  capacity: number; // Story points the sprint can hold
+  committedPoints: number; // Story points already assigned to the sprint
+  memberPoints: { [teamMemberId: string]: number }; // Story points each member can still take in the sprint
+}
+
+export interface ScheduleInput {
+  workItems: SchedulableWorkItem[]; // Every non-epic work item, assigned or not
+  sprints: SchedulableSprint[]; // Sprints the scheduler is allowed to fill
+  teamMembers: SchedulableMember[]; // Members whose sprint capacity the work is matched against
+  backlogIds?: string[]; // Optional subset of the unassigned backlog to schedule
+}
+
+export interface ScheduledAssignment {
+  workItemId: string;
+  title: string;
+  sprintId: string;
+  sprintName: string;
+  storyPoints: number;
+  priority: string;
+  requiredCompletionDate: Date;
+  meetsDeadline: boolean;
+  assigneeId: string | null; // Member whose capacity the item was matched against
+  assigneeName: string | null;
+  newAssignee: boolean; // The item had no assignee; committing assigns it to assigneeId
+}
+
+export interface UnschedulableWorkItem {
+  workItemId: string;
+  title: string;
+  storyPoints: number;
+  reasons: string[];
+}
+
+export interface SprintPlanSummary {
+  sprintId: string;
+  name: string;
+  capacity: number;
+  committedPoints: number;
+  scheduledPoints: number;
+  remainingCapacity: number;
+}
+
+export interface SchedulePlan {
+  assignments: ScheduledAssignment[];
+  unschedulable: UnschedulableWorkItem[];
+  sprints: SprintPlanSummary[];
+}
+
+// Order candidates by priority, then by deadline, then biggest first so large items
+// get first pick of the remaining capacity
+function compareCandidates(a: SchedulableWorkItem, b: SchedulableWorkItem): number {
+  const rankA = PRIORITY_RANK[a.priority] ?? PRIORITY_RANK.Medium;
+  const rankB = PRIORITY_RANK[b.priority] ?? PRIORITY_RANK.Medium;
+  if (rankA !== rankB) return rankA - rankB;
+
+  const deadlineDiff = a.requiredCompletionDate.getTime() - b.requiredCompletionDate.getTime();
+  if (deadlineDiff !== 0) return deadlineDiff;
+
+  return b.estimateStoryPoints - a.estimateStoryPoints;
+}
+
+// Greedy list scheduler: walks the unassigned backlog in dependency order and drops each
+// item into the earliest sprint that comes after all of its dependencies and still has room,
+// both in the sprint and for a member with the required skills. An item keeps its assignee;
+// an unassigned one goes to the qualified member with the most points left in that sprint.
+// Without any team members only the sprint capacity is checked.
+export function buildSchedulePlan(input: ScheduleInput): SchedulePlan {
+  const sprints = [...input.sprints].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  const sprintIndex = new Map(sprints.map((sprint, index) => [sprint.id, index]));
+  const remaining = sprints.map(sprint => sprint.capacity - sprint.committedPoints);
+  const memberRemaining = sprints.map(sprint => ({ ...sprint.memberPoints }));
+  const scheduledPoints = sprints.map(() => 0);
+  const membersById = new Map(input.teamMembers.map(member => [member.id, member]));
+
+  const itemsById = new Map(input.workItems.map(item => [item.id, item]));
+  const requestedIds = input.backlogIds ? new Set(input.backlogIds) : null;
+  const backlog = input.workItems.filter(item =>
+    item.assignedSprintIds.length === 0 &&
+    item.status !== 'Completed' &&
+    (!requestedIds || requestedIds.has(item.id))
+  );
+
+  const dependencyMap = buildDependencyMap(
+    input.workItems.flatMap(item => item.dependencies.map(dependsOnId => ({ workItemId: item.id, dependsOnId })))
+  );
+  const { order, cyclic } = topologicalOrder(
+    backlog.map(item => item.id),
+    dependencyMap,
+    (a, b) => compareCandidates(itemsById.get(a)!, itemsById.get(b)!)
+  );
+
+  const placements = new Map<string, number>();
+  const assignments: ScheduledAssignment[] = [];
+  const unschedulable: UnschedulableWorkItem[] = [];
+  const maxCapacity = Math.max(0, ...sprints.map(sprint => sprint.capacity));
+
+  for (const id of order) {
+    const item = itemsById.get(id)!;
+    const reasons: string[] = [];
+
+    // Members whose capacity the item may use: its assignee, or anyone with every required skill
+    let candidates: SchedulableMember[] = [];
+    const assignee = item.assigneeId ? membersById.get(item.assigneeId) : undefined;
+    if (assignee) {
+      const missingSkills = item.requiredSkills.filter(skill => !assignee.skills.includes(skill));
+      if (missingSkills.length > 0) {
+        reasons.push(`Assignee ${assignee.name} does not have the required skill(s): ${missingSkills.join(', ')}`);
+      }
+      candidates = [assignee];
+    } else if (item.assigneeId) {
+      reasons.push('Assignee is not a member of the team being scheduled');
+    } else if (input.teamMembers.length > 0) {
+      candidates = input.teamMembers.filter(member => item.requiredSkills.every(skill => member.skills.includes(skill)));
+      if (candidates.length === 0) {
+        reasons.push(`No team member has all of the required skill(s): ${item.requiredSkills.join(', ')}`);
+      }
+    }
+    const matchMembers = input.teamMembers.length > 0;
+
+    // The item has to land in a sprint after every unfinished dependency
+    let earliestIndex = 0;
+    for (const depId of item.dependencies) {
+      const dependency = itemsById.get(depId);
+      if (!dependency || dependency.status === 'Completed') continue;
+
+      if (placements.has(depId)) {
+        earliestIndex = Math.max(earliestIndex, placements.get(depId)! + 1);
+      } else if (dependency.assignedSprintIds.length > 0) {
+        const depIndexes = dependency.assignedSprintIds
+          .map(sprintId => sprintIndex.get(sprintId))
+          .filter((index): index is number => index !== undefined);
+        if (depIndexes.length > 0) {
+          earliestIndex = Math.max(earliestIndex, Math.max(...depIndexes) + 1);
+        }
+      } else {
+        reasons.push(`Depends on "${dependency.title}" which is not scheduled`);
+      }
+    }
+
+    if (reasons.length === 0) {
+      let targetIndex = -1;
+      let member: SchedulableMember | null = null;
+      let sprintHasRoom = false;
+      for (let i = earliestIndex; i < sprints.length; i++) {
+        if (remaining[i] < item.estimateStoryPoints) continue;
+        sprintHasRoom = true;
+
+        if (matchMembers) {
+          const available = candidates
+            .filter(candidate => (memberRemaining[i][candidate.id] || 0) >= item.estimateStoryPoints)
+            .sort((a, b) => (memberRemaining[i][b.id] || 0) - (memberRemaining[i][a.id] || 0));
+          if (available.length === 0) continue;
+          member = available[0];
+        }
+        targetIndex = i;
+        break;
+      }
+
+      if (targetIndex === -1) {
+        if (item.estimateStoryPoints > maxCapacity) {
+          reasons.push(`Estimate of ${item.estimateStoryPoints} points exceeds the capacity of every sprint`);
+        } else if (earliestIndex >= sprints.length) {
+          reasons.push('Dependencies are scheduled in the last available sprint');
+        } else if (sprintHasRoom) {
+          reasons.push(assignee
+            ? `${assignee.name} has no sprint with enough remaining capacity after its dependencies`
+            : 'No team member with the required skills has enough remaining capacity in a sprint after its dependencies');
+        } else {
+          reasons.push('No sprint has enough remaining capacity after its dependencies');
+        }
+      } else {
+        const sprint = sprints[targetIndex];
+        remaining[targetIndex] -= item.estimateStoryPoints;
+        scheduledPoints[targetIndex] += item.estimateStoryPoints;
+        if (member) {
+          memberRemaining[targetIndex][member.id] = (memberRemaining[targetIndex][member.id] || 0) - item.estimateStoryPoints;
+        }
+        placements.set(item.id, targetIndex);
+
+        assignments.push({
+          workItemId: item.id,
+          title: item.title,
+          sprintId: sprint.id,
+          sprintName: sprint.name,
+          storyPoints: item.estimateStoryPoints,
+          priority: item.priority,
+          requiredCompletionDate: item.requiredCompletionDate,
+          meetsDeadline: sprint.endDate.getTime() <= item.requiredCompletionDate.getTime(),
+          assigneeId: member?.id ?? null,
+          assigneeName: member?.name ?? null,
+          newAssignee: member !== null && !item.assigneeId
+        });
+        continue;
+      }
+    }
+
+    unschedulable.push({
+      workItemId: item.id,
+      title: item.title,
+      storyPoints: item.estimateStoryPoints,
+      reasons
+    });
+  }
+
+  for (const id of cyclic) {
+    const item = itemsById.get(id)!;
+    unschedulable.push({
+      workItemId: item.id,
+      title: item.title,
+      storyPoints: item.estimateStoryPoints,
+      reasons: ['Part of (or blocked by) a dependency cycle']
+    });
+  }
+
+  return {
+    assignments,
+    unschedulable,
+    sprints: sprints.map((sprint, index) => ({
+      sprintId: sprint.id,
+      name: sprint.name,
+      capacity: sprint.capacity,
+      committedPoints: sprint.committedPoints,
+      scheduledPoints: scheduledPoints[index],
+      remainingCapacity: remaining[index]
+    }))
+  };
+}
@@ -0,0 +1,554 @@
+import { Request } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { buildDependencyMap, DependencyEdge, findCycleThrough } from './dependencyGraph';
+import { CommitmentSnapshot } from './commitment';
+
+// Bump when the document layout changes; restore only accepts versions it knows how to read
+export const SNAPSHOT_VERSION = 1;
+
+export const SNAPSHOT_RESTORE_MODES = ['empty', 'merge'] as const;
+export type SnapshotRestoreMode = typeof SNAPSHOT_RESTORE_MODES[number];
+
+const isDate = (value: string) => !isNaN(Date.parse(value));
+const dateString = z.string().refine(isDate, 'must be a date');
+
+// Committed items frozen when a sprint starts (see captureCommitmentSnapshot)
+const CommitmentSnapshotSchema = z.object({
+  capturedAt: dateString,
+  committedPoints: z.number(),
+  availableVelocity: z.number(),
+  workItems: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    storyPoints: z.number(),
+    priority: z.string(),
+    status: z.string()
+  }))
+});
+
+// A whole plan as one JSON document. IDs only link rows within the document; a restore
+// gives every row it creates a new ID. Items in the trash are not exported.
+export const PlanSnapshotSchema = z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  exportedAt: dateString,
+  teams: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    description: z.string().nullable()
+  })),
+  teamMembers: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    capacity: z.number().int().min(0).max(100),
+    skills: z.array(z.string()),
+    teamId: z.string().nullable(),
+    personalHolidays: z.array(z.object({
+      startDate: dateString,
+      endDate: dateString,
+      description: z.string().nullable()
+    }))
+  })),
+  publicHolidays: z.array(z.object({
+    name: z.string().min(1),
+    date: dateString,
+    impactPercentage: z.number().int().min(0).max(100),
+    teamId: z.string().nullable()
+  })),
+  sprintConfigs: z.array(z.object({
+    firstSprintStartDate: dateString,
+    sprintDurationDays: z.number().int().min(1),
+    defaultVelocity: z.number().min(0),
+    startingQuarterSprintNumber: z.number().int().min(1),
+    effectiveFrom: dateString,
+    teamId: z.string().nullable()
+  })),
+  sprints: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    startDate: dateString,
+    endDate: dateString,
+    plannedVelocity: z.number(),
+    actualVelocity: z.number().nullable(),
+    archived: z.boolean(),
+    state: z.enum(['planned', 'active', 'closed']),
+    startedAt: dateString.nullable(),
+    commitmentSnapshot: CommitmentSnapshotSchema.nullable(),
+    closedAt: dateString.nullable(),
+    carriedOverPoints: z.number().nullable(),
+    teamId: z.string().nullable()
+  })),
+  workItems: z.array(z.object({
+    id: z.string(),
+    jiraId: z.string().nullable(),
+    title: z.string().min(1),
+    description: z.string().nullable(),
+    estimateStoryPoints: z.number().min(0),
+    requiredCompletionDate: dateString,
+    requiredSkills: z.array(z.string()),
+    status: z.string(),
+    jiraStatus: z.string().nullable(),
+    epicId: z.string().nullable(), // A work item ID in this document, or a Jira epic key
+    isEpic: z.boolean(),
+    priority: z.string(),
+    assigneeId: z.string().nullable(),
+    teamId: z.string().nullable()
+  })),
+  dependencies: z.array(z.object({
+    workItemId: z.string(),
+    dependsOnId: z.string()
+  })),
+  sprintAssignments: z.array(z.object({
+    sprintId: z.string(),
+    workItemId: z.string(),
+    assignedAt: dateString
+  }))
+}).superRefine((snapshot, ctx) => {
+  // Every reference must point at a row in the same document
+  const teamIds = new Set(snapshot.teams.map(team => team.id));
+  const memberIds = new Set(snapshot.teamMembers.map(member => member.id));
+  const sprintIds = new Set(snapshot.sprints.map(sprint => sprint.id));
+  const workItemIds = new Set(snapshot.workItems.map(item => item.id));
+
+  const check = (ok: boolean, path: (string | number)[], message: string) => {
+    if (!ok) ctx.addIssue({ code: 'custom', path, message });
+  };
+  const checkTeam = (teamId: string | null, path: (string | number)[]) =>
+    check(teamId === null || teamIds.has(teamId), [...path, 'teamId'], `Unknown team ${teamId}`);
+
+  const checkUnique = (ids: string[], path: string) => {
+    const seen = new Set<string>();
+    ids.forEach((id, index) => {
+      check(!seen.has(id), [path, index, 'id'], `Duplicate ID ${id}`);
+      seen.add(id);
+    });
+  };
+  checkUnique(snapshot.teams.map(team => team.id), 'teams');
+  checkUnique(snapshot.teamMembers.map(member => member.id), 'teamMembers');
+  checkUnique(snapshot.sprints.map(sprint => sprint.id), 'sprints');
+  checkUnique(snapshot.workItems.map(item => item.id), 'workItems');
+
+  snapshot.teamMembers.forEach((member, index) => checkTeam(member.teamId, ['teamMembers', index]));
+  snapshot.publicHolidays.forEach((holiday, index) => checkTeam(holiday.teamId, ['publicHolidays', index]));
+  snapshot.sprintConfigs.forEach((config, index) => checkTeam(config.teamId, ['sprintConfigs', index]));
+  snapshot.sprints.forEach((sprint, index) => checkTeam(sprint.teamId, ['sprints', index]));
+  snapshot.workItems.forEach((item, index) => {
+    checkTeam(item.teamId, ['workItems', index]);
+    check(item.assigneeId === null || memberIds.has(item.assigneeId), ['workItems', index, 'assigneeId'], `Unknown team member ${item.assigneeId}`);
+  });
+  snapshot.dependencies.forEach((edge, index) => {
+    check(workItemIds.has(edge.workItemId), ['dependencies', index, 'workItemId'], `Unknown work item ${edge.workItemId}`);
+    check(workItemIds.has(edge.dependsOnId), ['dependencies', index, 'dependsOnId'], `Unknown work item ${edge.dependsOnId}`);
+  });
+  snapshot.sprintAssignments.forEach((assignment, index) => {
+    check(sprintIds.has(assignment.sprintId), ['sprintAssignments', index, 'sprintId'], `Unknown sprint ${assignment.sprintId}`);
+    check(workItemIds.has(assignment.workItemId), ['sprintAssignments', index, 'workItemId'], `Unknown work item ${assignment.workItemId}`);
+  });
+});
+
+export type PlanSnapshot = z.infer<typeof PlanSnapshotSchema>;
+
+export interface SnapshotCounts {
+  teams: number;
+  teamMembers: number;
+  personalHolidays: number;
+  publicHolidays: number;
+  sprintConfigs: number;
+  sprints: number;
+  workItems: number;
+  dependencies: number;
+  sprintAssignments: number;
+}
+
+export interface SnapshotRestoreResult {
+  mode: SnapshotRestoreMode;
+  created: SnapshotCounts;
+  matched: SnapshotCounts; // Rows that already existed and were kept as they are
+  skipped: string[]; // Links left out or rows adjusted, e.g. dependencies that would close a cycle
+}
+
+function emptyCounts(): SnapshotCounts {
+  return {
+    teams: 0,
+    teamMembers: 0,
+    personalHolidays: 0,
+    publicHolidays: 0,
+    sprintConfigs: 0,
+    sprints: 0,
+    workItems: 0,
+    dependencies: 0,
+    sprintAssignments: 0
+  };
+}
+
+const toIso = (date: Date | null) => (date ? date.toISOString() : null);
+
+// Export the live plan: teams, members with their holidays, public holidays, sprint configuration
+// versions, sprints, work items, dependencies and sprint assignments. The reads share one repeatable
+// read transaction, so references between them are consistent even while the plan is being edited.
+export async function exportSnapshot(): Promise<PlanSnapshot> {
+  const [teams, teamMembers, publicHolidays, sprintConfigs, sprints, workItems, dependencies, sprintAssignments] = await prisma.$transaction([
+    prisma.team.findMany({ orderBy: { createdAt: 'asc' } }),
+    prisma.teamMember.findMany({
+      where: { deletedAt: null },
+      include: { personalHolidays: { orderBy: { startDate: 'asc' } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.publicHoliday.findMany({ orderBy: { date: 'asc' } }),
+    prisma.sprintConfig.findMany({ orderBy: { effectiveFrom: 'asc' } }),
+    prisma.sprint.findMany({ orderBy: { startDate: 'asc' } }),
+    prisma.workItem.findMany({ where: { deletedAt: null }, orderBy: { createdAt: 'asc' } }),
+    prisma.workItemDependency.findMany(),
+    prisma.sprintWorkItem.findMany()
+  ], { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead });
+  const memberIds = new Set(teamMembers.map(member => member.id));
+
+  return {
+    version: SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    teams: teams.map(team => ({ id: team.id, name: team.name, description: team.description })),
+    teamMembers: teamMembers.map(member => ({
+      id: member.id,
+      name: member.name,
+      capacity: member.capacity,
+      skills: Array.isArray(member.skills) ? (member.skills as string[]) : [],
+      teamId: member.teamId,
+      personalHolidays: member.personalHolidays.map(holiday => ({
+        startDate: holiday.startDate.toISOString(),
+        endDate: holiday.endDate.toISOString(),
+        description: holiday.description
+      }))
+    })),
+    publicHolidays: publicHolidays.map(holiday => ({
+      name: holiday.name,
+      date: holiday.date.toISOString(),
+      impactPercentage: holiday.impactPercentage,
+      teamId: holiday.teamId
+    })),
+    sprintConfigs: sprintConfigs.map(config => ({
+      firstSprintStartDate: config.firstSprintStartDate.toISOString(),
+      sprintDurationDays: config.sprintDurationDays,
+      defaultVelocity: config.defaultVelocity,
+      startingQuarterSprintNumber: config.startingQuarterSprintNumber,
+      effectiveFrom: config.effectiveFrom.toISOString(),
+      teamId: config.teamId
+    })),
+    sprints: sprints.map(sprint => ({
+      id: sprint.id,
+      name: sprint.name,
+      startDate: sprint.startDate.toISOString(),
+      endDate: sprint.endDate.toISOString(),
+      plannedVelocity: sprint.plannedVelocity,
+      actualVelocity: sprint.actualVelocity,
+      archived: sprint.archived,
+      state: sprint.state as 'planned' | 'active' | 'closed',
+      startedAt: toIso(sprint.startedAt),
+      commitmentSnapshot: sprint.commitmentSnapshot as unknown as CommitmentSnapshot | null,
+      closedAt: toIso(sprint.closedAt),
+      carriedOverPoints: sprint.carriedOverPoints,
+      teamId: sprint.teamId
+    })),
+    workItems: workItems.map(item => ({
+      id: item.id,
+      jiraId: item.jiraId,
+      title: item.title,
+      description: item.description,
+      estimateStoryPoints: item.estimateStoryPoints,
+      requiredCompletionDate: item.requiredCompletionDate.toISOString(),
+      requiredSkills: Array.isArray(item.requiredSkills) ? (item.requiredSkills as string[]) : [],
+      status: item.status,
+      jiraStatus: item.jiraStatus,
+      epicId: item.epicId,
+      isEpic: item.isEpic,
+      priority: item.priority,
+      assigneeId: item.assigneeId && memberIds.has(item.assigneeId) ? item.assigneeId : null, // Trashed assignees are not exported
+      teamId: item.teamId
+    })),
+    dependencies: dependencies.map(edge => ({ workItemId: edge.workItemId, dependsOnId: edge.dependsOnId })),
+    sprintAssignments: sprintAssignments.map(assignment => ({
+      sprintId: assignment.sprintId,
+      workItemId: assignment.workItemId,
+      assignedAt: assignment.assignedAt.toISOString()
+    }))
+  };
+}
+
+// Store a snapshot of the current plan on the server before a destructive operation, so it can be restored later
+export async function createBackup(req: Request, reason: string, params: Record<string, unknown>): Promise<{ id: string; createdAt: Date }> {
+  const snapshot = await exportSnapshot();
+  const backup = await prisma.snapshotBackup.create({
+    data: {
+      reason,
+      params: params as Prisma.InputJsonValue,
+      data: snapshot as unknown as Prisma.InputJsonValue,
+      actorId: req.user?.id ?? null,
+      actorName: req.user ? req.user.email || req.user.name : null
+    },
+    select: {
+      id: true,
+      createdAt: true
+    }
+  });
+
+  console.log(`💾 Saved backup ${backup.id} before ${reason}`);
+  return backup;
+}
+
+// Count the live planning rows currently stored; 'empty' restores require all zero. Teams, sprint
+// configuration and trashed rows are not counted: resets leave them in place, and restores match
+// existing teams and configuration versions instead of duplicating them.
+export async function countPlanRows(client: Prisma.TransactionClient = prisma): Promise<Record<string, number>> {
+  const [teamMembers, publicHolidays, sprints, workItems] = await Promise.all([
+    client.teamMember.count({ where: { deletedAt: null } }),
+    client.publicHoliday.count(),
+    client.sprint.count(),
+    client.workItem.count({ where: { deletedAt: null } })
+  ]);
+
+  return { teamMembers, publicHolidays, sprints, workItems };
+}
+
+// Recreate a snapshot inside a transaction. Every row gets a new ID and references are remapped.
+// Teams (by name) and sprint configuration versions (by team and date) that already exist are kept
+// in both modes. In 'merge' mode other rows that already exist are matched and kept instead of
+// duplicated too: team members by name within their team, sprints by team, name and start date, work
+// items by Jira ID (or by title within their team when they have none), holidays by date. In both modes
+// dependencies that would close a cycle are left out, and a team never ends up with two active sprints.
+export async function restoreSnapshot(
+  tx: Prisma.TransactionClient,
+  snapshot: PlanSnapshot,
+  mode: SnapshotRestoreMode
+): Promise<SnapshotRestoreResult> {
+  const merge = mode === 'merge';
+  const result: SnapshotRestoreResult = { mode, created: emptyCounts(), matched: emptyCounts(), skipped: [] };
+  const dayKey = (date: Date | string) => new Date(date).toISOString();
+
+  // Teams
+  const teamIds = new Map<string, string>();
+  const existingTeams = await tx.team.findMany();
+  for (const team of snapshot.teams) {
+    const existing = existingTeams.find(candidate => candidate.name === team.name);
+    if (existing) {
+      teamIds.set(team.id, existing.id);
+      result.matched.teams++;
+      continue;
+    }
+    const created = await tx.team.create({ data: { name: team.name, description: team.description } });
+    teamIds.set(team.id, created.id);
+    result.created.teams++;
+  }
+  const mapTeam = (teamId: string | null) => (teamId ? teamIds.get(teamId)! : null);
+
+  // Team members and their personal holidays
+  const memberIds = new Map<string, string>();
+  const existingMembers = merge
+    ? await tx.teamMember.findMany({ where: { deletedAt: null }, include: { personalHolidays: true } })
+    : [];
+  for (const member of snapshot.teamMembers) {
+    const teamId = mapTeam(member.teamId);
+    const existing = existingMembers.find(candidate => candidate.name === member.name && candidate.teamId === teamId);
+    const existingHolidays = new Set(
+      (existing?.personalHolidays || []).map(holiday => `${dayKey(holiday.startDate)}|${dayKey(holiday.endDate)}`)
+    );
+    let teamMemberId: string;
+
+    if (existing) {
+      teamMemberId = existing.id;
+      result.matched.teamMembers++;
+    } else {
+      const created = await tx.teamMember.create({
+        data: { name: member.name, capacity: member.capacity, skills: member.skills, teamId }
+      });
+      teamMemberId = created.id;
+      result.created.teamMembers++;
+    }
+    memberIds.set(member.id, teamMemberId);
+
+    const holidays = member.personalHolidays.filter(holiday => !existingHolidays.has(`${dayKey(holiday.startDate)}|${dayKey(holiday.endDate)}`));
+    result.matched.personalHolidays += member.personalHolidays.length - holidays.length;
+    if (holidays.length > 0) {
+      result.created.personalHolidays += (await tx.personalHoliday.createMany({
+        data: holidays.map(holiday => ({
+          teamMemberId,
+          startDate: new Date(holiday.startDate),
+          endDate: new Date(holiday.endDate),
+          description: holiday.description
+        }))
+      })).count;
+    }
+  }
+
+  // Public holidays
+  const existingHolidays = new Set(
+    (merge ? await tx.publicHoliday.findMany() : []).map(holiday => `${holiday.teamId}|${dayKey(holiday.date)}|${holiday.name}`)
+  );
+  const publicHolidays = snapshot.publicHolidays
+    .map(holiday => ({ ...holiday, teamId: mapTeam(holiday.teamId) }))
+    .filter(holiday => !existingHolidays.has(`${holiday.teamId}|${dayKey(holiday.date)}|${holiday.name}`));
+  result.matched.publicHolidays = snapshot.publicHolidays.length - publicHolidays.length;
+  if (publicHolidays.length > 0) {
+    result.created.publicHolidays = (await tx.publicHoliday.createMany({
+      data: publicHolidays.map(holiday => ({
+        name: holiday.name,
+        date: new Date(holiday.date),
+        impactPercentage: holiday.impactPercentage,
+        teamId: holiday.teamId
+      }))
+    })).count;
+  }
+
+  // Sprint configuration versions
+  const existingConfigs = new Set(
+    (await tx.sprintConfig.findMany()).map(config => `${config.teamId}|${dayKey(config.effectiveFrom)}`)
+  );
+  const sprintConfigs = snapshot.sprintConfigs
+    .map(config => ({ ...config, teamId: mapTeam(config.teamId) }))
+    .filter(config => !existingConfigs.has(`${config.teamId}|${dayKey(config.effectiveFrom)}`));
+  result.matched.sprintConfigs = snapshot.sprintConfigs.length - sprintConfigs.length;
+  if (sprintConfigs.length > 0) {
+    result.created.sprintConfigs = (await tx.sprintConfig.createMany({
+      data: sprintConfigs.map(config => ({
+        firstSprintStartDate: new Date(config.firstSprintStartDate),
+        sprintDurationDays: config.sprintDurationDays,
+        defaultVelocity: config.defaultVelocity,
+        startingQuarterSprintNumber: config.startingQuarterSprintNumber,
+        effectiveFrom: new Date(config.effectiveFrom),
+        teamId: config.teamId
+      }))
+    })).count;
+  }
+
+  // Work items; epic links are remapped once every item has its new ID
+  const workItemIds = new Map<string, string>();
+  const existingWorkItems = merge ? await tx.workItem.findMany({ where: { deletedAt: null } }) : [];
+  const createdWorkItems: { id: string; epicId: string | null }[] = [];
+  for (const item of snapshot.workItems) {
+    const teamId = mapTeam(item.teamId);
+    const existing = existingWorkItems.find(candidate => item.jiraId
+      ? candidate.jiraId === item.jiraId
+      : !candidate.jiraId && candidate.title === item.title && candidate.teamId === teamId);
+    if (existing) {
+      workItemIds.set(item.id, existing.id);
+      result.matched.workItems++;
+      continue;
+    }
+
+    const created = await tx.workItem.create({
+      data: {
+        jiraId: item.jiraId,
+        title: item.title,
+        description: item.description,
+        estimateStoryPoints: item.estimateStoryPoints,
+        requiredCompletionDate: new Date(item.requiredCompletionDate),
+        requiredSkills: item.requiredSkills,
+        status: item.status,
+        jiraStatus: item.jiraStatus,
+        isEpic: item.isEpic,
+        priority: item.priority,
+        assigneeId: item.assigneeId ? memberIds.get(item.assigneeId)! : null,
+        teamId
+      }
+    });
+    workItemIds.set(item.id, created.id);
+    createdWorkItems.push({ id: created.id, epicId: item.epicId });
+    result.created.workItems++;
+  }
+  for (const item of createdWorkItems) {
+    if (!item.epicId) continue;
+    await tx.workItem.update({
+      where: { id: item.id },
+      data: { epicId: workItemIds.get(item.epicId) ?? item.epicId } // Jira epic keys are kept as they are
+    });
+  }
+
+  // Sprints; frozen commitments refer to work items, so their IDs are remapped too
+  const sprintIds = new Map<string, string>();
+  const existingSprints = merge ? await tx.sprint.findMany() : [];
+  const teamsWithActiveSprint = new Set(existingSprints
+    .filter(sprint => sprint.state === 'active' && !sprint.archived)
+    .map(sprint => sprint.teamId));
+  for (const sprint of snapshot.sprints) {
+    const teamId = mapTeam(sprint.teamId);
+    const existing = existingSprints.find(candidate =>
+      candidate.teamId === teamId && candidate.name === sprint.name && dayKey(candidate.startDate) === dayKey(sprint.startDate));
+    if (existing) {
+      sprintIds.set(sprint.id, existing.id);
+      result.matched.sprints++;
+      continue;
+    }
+
+    // Each team runs one sprint at a time; an active sprint that would be the second comes back as planned
+    let activeConflict = false;
+    if (sprint.state === 'active' && !sprint.archived) {
+      activeConflict = teamsWithActiveSprint.has(teamId);
+      if (activeConflict) {
+        result.skipped.push(`Sprint "${sprint.name}" restored as planned because its team already has an active sprint`);
+      } else {
+        teamsWithActiveSprint.add(teamId);
+      }
+    }
+
+    const commitment = activeConflict ? null : sprint.commitmentSnapshot;
+    const created = await tx.sprint.create({
+      data: {
+        name: sprint.name,
+        startDate: new Date(sprint.startDate),
+        endDate: new Date(sprint.endDate),
+        plannedVelocity: sprint.plannedVelocity,
+        actualVelocity: sprint.actualVelocity,
+        archived: sprint.archived,
+        state: activeConflict ? 'planned' : sprint.state,
+        startedAt: sprint.startedAt && !activeConflict ? new Date(sprint.startedAt) : null,
+        commitmentSnapshot: commitment
+          ? ({
+            ...commitment,
+            workItems: commitment.workItems.map(item => ({ ...item, id: workItemIds.get(item.id) ?? item.id }))
+          } as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        closedAt: sprint.closedAt ? new Date(sprint.closedAt) : null,
+        carriedOverPoints: sprint.carriedOverPoints,
+        teamId
+      }
+    });
+    sprintIds.set(sprint.id, created.id);
+    result.created.sprints++;
+  }
+
+  // Dependencies; edges that would close a cycle, with the existing graph or within the document, are left out
+  const edges: DependencyEdge[] = merge
+    ? await tx.workItemDependency.findMany({ select: { workItemId: true, dependsOnId: true } })
+    : [];
+  const edgeKeys = new Set(edges.map(edge => `${edge.workItemId}|${edge.dependsOnId}`));
+  const newEdges: DependencyEdge[] = [];
+  for (const dependency of snapshot.dependencies) {
+    const edge = { workItemId: workItemIds.get(dependency.workItemId)!, dependsOnId: workItemIds.get(dependency.dependsOnId)! };
+    if (edgeKeys.has(`${edge.workItemId}|${edge.dependsOnId}`)) {
+      result.matched.dependencies++;
+      continue;
+    }
+    if (findCycleThrough(edge.workItemId, buildDependencyMap([...edges, edge]))) {
+      result.skipped.push(`Dependency ${dependency.workItemId} → ${dependency.dependsOnId} would create a cycle`);
+      continue;
+    }
+    edges.push(edge);
+    edgeKeys.add(`${edge.workItemId}|${edge.dependsOnId}`);
+    newEdges.push(edge);
+  }
+  if (newEdges.length > 0) {
+    result.created.dependencies = (await tx.workItemDependency.createMany({ data: newEdges })).count;
+  }
+
+  // Sprint assignments
+  const assignments = snapshot.sprintAssignments.map(assignment => ({
+    sprintId: sprintIds.get(assignment.sprintId)!,
+    workItemId: workItemIds.get(assignment.workItemId)!,
+    assignedAt: new Date(assignment.assignedAt)
+  }));
+  if (assignments.length > 0) {
+    result.created.sprintAssignments = (await tx.sprintWorkItem.createMany({ data: assignments, skipDuplicates: true })).count;
+    result.matched.sprintAssignments = assignments.length - result.created.sprintAssignments;
+  }
+
+  return result;
+}
@@ -0,0 +1,113 @@
+import { prisma } from './prisma';
+import { startOfUtcDay } from './capacity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Hard stop so an open-ended request cannot loop forever
+const MAX_CALENDAR_SPRINTS = 260;
+
+export interface SprintConfigVersion {
+  id: string;
+  firstSprintStartDate: Date;
+  sprintDurationDays: number;
+  defaultVelocity: number;
+  startingQuarterSprintNumber: number;
+  effectiveFrom: Date;
+}
+
+export interface CalendarSprint {
+  index: number; // 0 for the first configured sprint
+  name: string;
+  quarter: number;
+  year: number;
+  quarterSprintNumber: number;
+  startDate: Date;
+  endDate: Date;
+  plannedVelocity: number;
+  configId: string; // Configuration version in force when the sprint starts
+}
+
+export function quarterOf(date: Date): { quarter: number; year: number } {
+  return { quarter: Math.floor(date.getUTCMonth() / 3) + 1, year: date.getUTCFullYear() };
+}
+
+// e.g. "Q3 2025 Sprint 2"
+export function formatSprintName(quarter: number, year: number, quarterSprintNumber: number): string {
+  return `Q${quarter} ${year} Sprint ${quarterSprintNumber}`;
+}
+
+// All configuration versions, oldest effective date first. A team without versions of its own
+// follows the shared (team-less) configuration.
+export async function loadConfigVersions(teamId?: string): Promise<SprintConfigVersion[]> {
+  const load = (scope: string | null) => prisma.sprintConfig.findMany({
+    where: { teamId: scope },
+    orderBy: [
+      { effectiveFrom: 'asc' },
+      { createdAt: 'asc' }
+    ]
+  });
+
+  if (teamId) {
+    const teamVersions = await load(teamId);
+    if (teamVersions.length > 0) return teamVersions;
+  }
+  return load(null);
+}
+
+// The version in force on a date: the latest one effective on or before it. Dates before the first
+// version fall back to that version, so older sprints still get a cadence.
+export function configInForce<T extends { effectiveFrom: Date }>(versions: T[], date: Date): T | null {
+  const day = startOfUtcDay(date).getTime();
+  let inForce: T | null = versions.length > 0 ? versions[0] : null;
+  for (const version of versions) {
+    if (startOfUtcDay(version.effectiveFrom).getTime() <= day) inForce = version;
+  }
+  return inForce;
+}
+
+// Lay out back-to-back sprints from the first version's firstSprintStartDate. Each sprint takes its
+// length and planned velocity from the version in force on its start date, so a change only affects
+// sprints starting after it. A sprint belongs to the quarter it starts in; numbering restarts at 1
+// each quarter, except that the very first sprint starts at startingQuarterSprintNumber. Stops once
+// `until` returns true for a sprint (that sprint is excluded).
+export function buildSprintCalendar(
+  versions: SprintConfigVersion[],
+  until: (sprint: CalendarSprint) => boolean
+): CalendarSprint[] {
+  const sprints: CalendarSprint[] = [];
+  if (versions.length === 0) return sprints;
+
+  let startTime = startOfUtcDay(versions[0].firstSprintStartDate).getTime();
+  let previous: CalendarSprint | null = null;
+
+  for (let index = 0; index < MAX_CALENDAR_SPRINTS; index++) {
+    const startDate = new Date(startTime);
+    const config = configInForce(versions, startDate)!;
+    const endDate = new Date(startTime + (config.sprintDurationDays - 1) * DAY_MS);
+    const { quarter, year } = quarterOf(startDate);
+
+    const sameQuarter = previous !== null && previous.quarter === quarter && previous.year === year;
+    const quarterSprintNumber = previous === null
+      ? versions[0].startingQuarterSprintNumber
+      : sameQuarter ? previous.quarterSprintNumber + 1 : 1;
+
+    const sprint: CalendarSprint = {
+      index,
+      name: formatSprintName(quarter, year, quarterSprintNumber),
+      quarter,
+      year,
+      quarterSprintNumber,
+      startDate,
+      endDate,
+      plannedVelocity: config.defaultVelocity,
+      configId: config.id
+    };
+    if (until(sprint)) break;
+
+    sprints.push(sprint);
+    previous = sprint;
+    startTime = endDate.getTime() + DAY_MS;
+  }
+
+  return sprints;
+}
@@ -0,0 +1,123 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RegenerationOldSprint {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  plannedVelocity: number;
+  actualVelocity: number | null;
+  assignments: { workItemId: string; assignedAt: Date }[];
+}
+
+export interface RegenerationNewSprint {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  plannedVelocity: number;
+  actualVelocity?: number;
+}
+
+export interface RegenerationUpdate {
+  sprintId: string;
+  previousName: string;
+  sprint: RegenerationNewSprint;
+  changes: string[];
+}
+
+export interface RegenerationRemap {
+  workItemId: string;
+  assignedAt: Date;
+  fromSprintId: string;
+  fromSprintName: string;
+  toSprintName: string;
+  toIndex: number; // Position of the target in the requested sprint list
+  matchedBy: 'overlap' | 'nearest';
+}
+
+export interface RegenerationPlan {
+  created: { index: number; sprint: RegenerationNewSprint }[];
+  updated: (RegenerationUpdate & { index: number })[];
+  removed: { sprintId: string; name: string; assignmentCount: number }[];
+  assignmentsRemapped: RegenerationRemap[];
+}
+
+// Number of days two inclusive date ranges share
+function overlapDays(a: { startDate: Date; endDate: Date }, b: { startDate: Date; endDate: Date }): number {
+  const start = Math.max(a.startDate.getTime(), b.startDate.getTime());
+  const end = Math.min(a.endDate.getTime(), b.endDate.getTime());
+  return end < start ? 0 : Math.floor((end - start) / DAY_MS) + 1;
+}
+
+// Map the existing sprints onto a regenerated sprint list. Old and new sprints are paired one-to-one
+// by largest date overlap and paired sprints are updated in place, which keeps their assignments.
+// Unpaired new sprints are created; unpaired old sprints are removed and their assignments move
+// to the new sprint they overlap most, or the one starting nearest to them if none overlap.
+export function planRegeneration(oldSprints: RegenerationOldSprint[], newSprints: RegenerationNewSprint[]): RegenerationPlan {
+  const pairs: { oldIndex: number; newIndex: number; overlap: number }[] = [];
+  oldSprints.forEach((oldSprint, oldIndex) => {
+    newSprints.forEach((newSprint, newIndex) => {
+      const overlap = overlapDays(oldSprint, newSprint);
+      if (overlap > 0) pairs.push({ oldIndex, newIndex, overlap });
+    });
+  });
+  pairs.sort((a, b) => b.overlap - a.overlap || a.oldIndex - b.oldIndex || a.newIndex - b.newIndex);
+
+  const oldToNew = new Map<number, number>();
+  const newToOld = new Map<number, number>();
+  for (const pair of pairs) {
+    if (oldToNew.has(pair.oldIndex) || newToOld.has(pair.newIndex)) continue;
+    oldToNew.set(pair.oldIndex, pair.newIndex);
+    newToOld.set(pair.newIndex, pair.oldIndex);
+  }
+
+  const plan: RegenerationPlan = { created: [], updated: [], removed: [], assignmentsRemapped: [] };
+
+  newSprints.forEach((sprint, index) => {
+    const oldIndex = newToOld.get(index);
+    if (oldIndex === undefined) {
+      plan.created.push({ index, sprint });
+      return;
+    }
+
+    const oldSprint = oldSprints[oldIndex];
+    const changes: string[] = [];
+    if (oldSprint.name !== sprint.name) changes.push('name');
+    if (oldSprint.startDate.getTime() !== sprint.startDate.getTime()) changes.push('startDate');
+    if (oldSprint.endDate.getTime() !== sprint.endDate.getTime()) changes.push('endDate');
+    if (oldSprint.plannedVelocity !== sprint.plannedVelocity) changes.push('plannedVelocity');
+    if (sprint.actualVelocity !== undefined && oldSprint.actualVelocity !== sprint.actualVelocity) changes.push('actualVelocity');
+
+    plan.updated.push({ index, sprintId: oldSprint.id, previousName: oldSprint.name, sprint, changes });
+  });
+
+  oldSprints.forEach((oldSprint, oldIndex) => {
+    if (oldToNew.has(oldIndex)) return;
+
+    plan.removed.push({ sprintId: oldSprint.id, name: oldSprint.name, assignmentCount: oldSprint.assignments.length });
+    if (newSprints.length === 0 || oldSprint.assignments.length === 0) return;
+
+    let target = { index: 0, overlap: 0, distance: Infinity };
+    newSprints.forEach((newSprint, index) => {
+      const overlap = overlapDays(oldSprint, newSprint);
+      const distance = Math.abs(newSprint.startDate.getTime() - oldSprint.startDate.getTime());
+      if (overlap > target.overlap || (target.overlap === 0 && overlap === 0 && distance < target.distance)) {
+        target = { index, overlap, distance };
+      }
+    });
+
+    for (const assignment of oldSprint.assignments) {
+      plan.assignmentsRemapped.push({
+        workItemId: assignment.workItemId,
+        assignedAt: assignment.assignedAt,
+        fromSprintId: oldSprint.id,
+        fromSprintName: oldSprint.name,
+        toSprintName: newSprints[target.index].name,
+        toIndex: target.index,
+        matchedBy: target.overlap > 0 ? 'overlap' : 'nearest'
+      });
+    }
+  });
+
+  return plan;
+}
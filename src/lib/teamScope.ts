@@ -0,0 +1,30 @@
+import { Request } from 'express';
+import { prisma } from './prisma';
+import { ApiError } from '../types';
+
+// The ?teamId= filter every route accepts; undefined means all teams
+export function getTeamFilter(req: Request): string | undefined {
+  const { teamId } = req.query;
+  return typeof teamId === 'string' && teamId !== '' ? teamId : undefined;
+}
+
+// Prisma where clause for a team filter
+export function teamScope(teamId: string | undefined): { teamId?: string } {
+  return teamId ? { teamId } : {};
+}
+
+// Public holidays without a team apply to every team
+export function holidayTeamScope(teamId: string | undefined) {
+  return teamId ? { OR: [{ teamId }, { teamId: null }] } : {};
+}
+
+// Validate a teamId supplied on a write; returns the error to send when it does not exist
+export async function checkTeam(teamId: string | null | undefined): Promise<ApiError | null> {
+  if (!teamId) return null;
+
+  const team = await prisma.team.findUnique({
+    where: { id: teamId }
+  });
+
+  return team ? null : { error: 'Invalid team', message: `Team ${teamId} does not exist` };
+}
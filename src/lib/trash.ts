@@ -0,0 +1,215 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { buildDependencyMap, DependencyEdge, findCycleThrough } from './dependencyGraph';
+import { recordWorkItemChanges } from './workItemHistory';
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Relation rows detached from a work item while it is in the trash, so a restore can put them back
+export interface DeletedLinks {
+  dependencies: { workItemId: string; dependsOnId: string }[]; // Edges in both directions
+  sprintAssignments: { sprintId: string; assignedAt: string }[];
+}
+
+export interface RestoreResult {
+  restoredDependencies: number;
+  restoredSprintAssignments: number;
+  skipped: string[]; // Links that could not come back, e.g. because the sprint was deleted
+}
+
+// Days a deleted item stays restorable before the purge job removes it for good (TRASH_RETENTION_DAYS)
+export function trashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '');
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + trashRetentionDays() * 24 * 60 * 60 * 1000);
+}
+
+function readDeletedLinks(value: Prisma.JsonValue | null): DeletedLinks {
+  const links = (value || {}) as Partial<DeletedLinks>;
+  return {
+    dependencies: Array.isArray(links.dependencies) ? links.dependencies : [],
+    sprintAssignments: Array.isArray(links.sprintAssignments) ? links.sprintAssignments : []
+  };
+}
+
+// Move a work item to the trash. Its dependency edges and sprint assignments are stashed on the
+// item and removed, so trashed items never show up through relation includes or graph queries.
+export async function softDeleteWorkItem(tx: Prisma.TransactionClient, id: string): Promise<DeletedLinks> {
+  const [edges, assignments] = await Promise.all([
+    tx.workItemDependency.findMany({
+      where: {
+        OR: [{ workItemId: id }, { dependsOnId: id }]
+      }
+    }),
+    tx.sprintWorkItem.findMany({
+      where: { workItemId: id }
+    })
+  ]);
+
+  const deletedLinks: DeletedLinks = {
+    dependencies: edges.map(edge => ({ workItemId: edge.workItemId, dependsOnId: edge.dependsOnId })),
+    sprintAssignments: assignments.map(assignment => ({
+      sprintId: assignment.sprintId,
+      assignedAt: assignment.assignedAt.toISOString()
+    }))
+  };
+
+  await tx.workItemDependency.deleteMany({
+    where: {
+      OR: [{ workItemId: id }, { dependsOnId: id }]
+    }
+  });
+  await tx.sprintWorkItem.deleteMany({
+    where: { workItemId: id }
+  });
+
+  const deletedAt = new Date();
+  await tx.workItem.update({
+    where: { id },
+    data: {
+      deletedAt,
+      deletedLinks: deletedLinks as unknown as Prisma.InputJsonValue
+    }
+  });
+  await recordWorkItemChanges(tx, [{ workItemId: id, field: 'deletedAt', oldValue: null, newValue: deletedAt }], 'manual');
+
+  return deletedLinks;
+}
+
+// Bring a work item back from the trash with its dependencies and sprint assignments. Edges to an
+// item that is itself still in the trash are handed over to that item's stash, so they come back
+// when it is restored; links to rows that are gone, or that would now form a cycle, are reported as skipped.
+export async function restoreWorkItem(
+  tx: Prisma.TransactionClient,
+  workItem: { id: string; title: string; deletedAt: Date | null; deletedLinks: Prisma.JsonValue | null }
+): Promise<RestoreResult> {
+  const { id } = workItem;
+  const links = readDeletedLinks(workItem.deletedLinks);
+  const result: RestoreResult = { restoredDependencies: 0, restoredSprintAssignments: 0, skipped: [] };
+
+  const otherIds = [...new Set(links.dependencies.map(edge => (edge.workItemId === id ? edge.dependsOnId : edge.workItemId)))];
+  const others = await tx.workItem.findMany({
+    where: {
+      id: { in: otherIds }
+    },
+    select: {
+      id: true,
+      title: true,
+      deletedAt: true,
+      deletedLinks: true
+    }
+  });
+  const othersById = new Map(others.map(other => [other.id, other]));
+  const handedOver = new Map<string, DeletedLinks>();
+  const liveEdges: DependencyEdge[] = await tx.workItemDependency.findMany({
+    select: {
+      workItemId: true,
+      dependsOnId: true
+    }
+  });
+
+  for (const edge of links.dependencies) {
+    const otherId = edge.workItemId === id ? edge.dependsOnId : edge.workItemId;
+    const other = othersById.get(otherId);
+
+    if (!other) {
+      result.skipped.push(`Dependency on deleted work item ${otherId}`);
+      continue;
+    }
+
+    if (other.deletedAt) {
+      const otherLinks = handedOver.get(otherId) || readDeletedLinks(other.deletedLinks);
+      if (!otherLinks.dependencies.some(existing => existing.workItemId === edge.workItemId && existing.dependsOnId === edge.dependsOnId)) {
+        otherLinks.dependencies.push(edge);
+      }
+      handedOver.set(otherId, otherLinks);
+      continue;
+    }
+
+    // Dependencies added while the item was in the trash may have made the old edge circular
+    if (findCycleThrough(id, buildDependencyMap([...liveEdges, edge]))) {
+      result.skipped.push(`Dependency with "${other.title}" would create a cycle`);
+      continue;
+    }
+    liveEdges.push(edge);
+
+    await tx.workItemDependency.upsert({
+      where: {
+        workItemId_dependsOnId: { workItemId: edge.workItemId, dependsOnId: edge.dependsOnId }
+      },
+      create: { workItemId: edge.workItemId, dependsOnId: edge.dependsOnId },
+      update: {}
+    });
+    result.restoredDependencies++;
+  }
+
+  for (const [otherId, otherLinks] of handedOver) {
+    await tx.workItem.update({
+      where: { id: otherId },
+      data: {
+        deletedLinks: otherLinks as unknown as Prisma.InputJsonValue
+      }
+    });
+    result.skipped.push(`Dependency with "${othersById.get(otherId)!.title}" will return when it is restored from the trash`);
+  }
+
+  const sprints = await tx.sprint.findMany({
+    where: {
+      id: { in: links.sprintAssignments.map(assignment => assignment.sprintId) }
+    },
+    select: {
+      id: true
+    }
+  });
+  const sprintIds = new Set(sprints.map(sprint => sprint.id));
+
+  for (const assignment of links.sprintAssignments) {
+    if (!sprintIds.has(assignment.sprintId)) {
+      result.skipped.push(`Assignment to deleted sprint ${assignment.sprintId}`);
+      continue;
+    }
+
+    await tx.sprintWorkItem.upsert({
+      where: {
+        sprintId_workItemId: { sprintId: assignment.sprintId, workItemId: id }
+      },
+      create: { sprintId: assignment.sprintId, workItemId: id, assignedAt: new Date(assignment.assignedAt) },
+      update: {}
+    });
+    result.restoredSprintAssignments++;
+  }
+
+  await tx.workItem.update({
+    where: { id },
+    data: {
+      deletedAt: null,
+      deletedLinks: Prisma.DbNull
+    }
+  });
+  await recordWorkItemChanges(tx, [{ workItemId: id, field: 'deletedAt', oldValue: workItem.deletedAt, newValue: null }], 'manual');
+
+  return result;
+}
+
+// Permanently delete trashed work items and team members whose retention period has passed
+export async function purgeTrash(now: Date = new Date()): Promise<{ workItems: number; teamMembers: number }> {
+  const cutoff = new Date(now.getTime() - trashRetentionDays() * 24 * 60 * 60 * 1000);
+
+  return prisma.$transaction(async (tx) => {
+    const workItems = await tx.workItem.deleteMany({
+      where: {
+        deletedAt: { lte: cutoff }
+      }
+    });
+    const teamMembers = await tx.teamMember.deleteMany({
+      where: {
+        deletedAt: { lte: cutoff }
+      }
+    });
+
+    return { workItems: workItems.count, teamMembers: teamMembers.count };
+  });
+}
@@ -0,0 +1,115 @@
+import { prisma } from './prisma';
+import { teamScope } from './teamScope';
+
+// Relative change between the last three sprints and the three before them that counts as a trend
+const TREND_THRESHOLD = 0.1;
+
+export type VelocityTrend = 'up' | 'down' | 'flat' | 'insufficient-data';
+
+export interface VelocityHistoryEntry {
+  sprintId: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  plannedVelocity: number;
+  actualVelocity: number;
+}
+
+export interface VelocityPoint extends VelocityHistoryEntry {
+  rollingAverage3: number;
+  rollingAverage6: number;
+}
+
+export interface VelocityAnalytics {
+  sprintCount: number;
+  rollingAverage3: number | null;
+  rollingAverage6: number | null;
+  standardDeviation: number | null; // Over the last six sprints
+  trend: VelocityTrend;
+  trendChange: number | null; // Relative change of the last three sprints vs. the three before
+  history: VelocityPoint[];
+}
+
+// Round to two decimal places for API output
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function average(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = average(values);
+  return Math.sqrt(average(values.map(value => (value - mean) ** 2)));
+}
+
+// Summarize delivered velocity, oldest sprint first. Rolling averages use up to the last three and
+// six sprints, so they are available from the first sprint onwards.
+export function analyseVelocity(history: VelocityHistoryEntry[]): VelocityAnalytics {
+  const sorted = [...history].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  const velocities = sorted.map(entry => entry.actualVelocity);
+
+  const points = sorted.map((entry, index) => ({
+    ...entry,
+    rollingAverage3: round(average(velocities.slice(Math.max(0, index - 2), index + 1))),
+    rollingAverage6: round(average(velocities.slice(Math.max(0, index - 5), index + 1)))
+  }));
+
+  let trend: VelocityTrend = 'insufficient-data';
+  let trendChange: number | null = null;
+  if (velocities.length >= 6) {
+    const recent = average(velocities.slice(-3));
+    const previous = average(velocities.slice(-6, -3));
+    trendChange = previous > 0 ? round((recent - previous) / previous) : null;
+    if (trendChange === null) {
+      trend = recent > 0 ? 'up' : 'flat';
+    } else if (trendChange > TREND_THRESHOLD) {
+      trend = 'up';
+    } else if (trendChange < -TREND_THRESHOLD) {
+      trend = 'down';
+    } else {
+      trend = 'flat';
+    }
+  }
+
+  const last = points[points.length - 1];
+  return {
+    sprintCount: sorted.length,
+    rollingAverage3: last ? last.rollingAverage3 : null,
+    rollingAverage6: last ? last.rollingAverage6 : null,
+    standardDeviation: velocities.length > 0 ? round(standardDeviation(velocities.slice(-6))) : null,
+    trend,
+    trendChange,
+    history: points
+  };
+}
+
+// Sprints that have finished (or been closed) with a recorded velocity, optionally for one team
+export async function loadVelocityHistory(teamId?: string): Promise<VelocityHistoryEntry[]> {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  const sprints = await prisma.sprint.findMany({
+    where: {
+      ...teamScope(teamId),
+      actualVelocity: { gt: 0 },
+      OR: [
+        { endDate: { lt: today } },
+        { state: 'closed' }
+      ]
+    },
+    orderBy: {
+      startDate: 'asc'
+    }
+  });
+
+  return sprints.map(sprint => ({
+    sprintId: sprint.id,
+    name: sprint.name,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    plannedVelocity: sprint.plannedVelocity,
+    actualVelocity: sprint.actualVelocity as number
+  }));
+}
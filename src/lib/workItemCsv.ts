@@ -0,0 +1,341 @@
+import { z } from 'zod';
+import { formatCsv } from './csv';
+import { buildDependencyMap, findAllCycles } from './dependencyGraph';
+import { WorkItemData } from '../types';
+
+// Columns written by the export. Import reads the same columns (apart from id and sprints, which
+// it ignores) in any order; list cells hold several values separated by semicolons.
+export const WORK_ITEM_CSV_COLUMNS = [
+  'id',
+  'jiraId',
+  'title',
+  'description',
+  'estimateStoryPoints',
+  'requiredCompletionDate',
+  'requiredSkills',
+  'status',
+  'jiraStatus',
+  'isEpic',
+  'epic',
+  'priority',
+  'assignee',
+  'team',
+  'dependencies',
+  'sprints'
+];
+
+const LIST_SEPARATOR = ';';
+
+// Import header aliases, keyed by the header lowercased with everything but letters and digits removed
+const HEADER_FIELDS: { [header: string]: ImportField } = {
+  title: 'title',
+  summary: 'title',
+  description: 'description',
+  estimatestorypoints: 'estimateStoryPoints',
+  storypoints: 'estimateStoryPoints',
+  points: 'estimateStoryPoints',
+  requiredcompletiondate: 'requiredCompletionDate',
+  duedate: 'requiredCompletionDate',
+  requiredskills: 'requiredSkills',
+  skills: 'requiredSkills',
+  status: 'status',
+  jiraid: 'jiraId',
+  jirakey: 'jiraId',
+  jirastatus: 'jiraStatus',
+  isepic: 'isEpic',
+  epic: 'epic',
+  epicid: 'epic',
+  priority: 'priority',
+  assignee: 'assignee',
+  assigneeid: 'assignee',
+  team: 'team',
+  teamid: 'team',
+  dependencies: 'dependencies',
+  dependson: 'dependencies'
+};
+const IGNORED_HEADERS = ['id', 'sprints'];
+const REQUIRED_FIELDS: ImportField[] = ['title', 'estimateStoryPoints', 'requiredCompletionDate', 'requiredSkills'];
+
+type ImportField = 'title' | 'description' | 'estimateStoryPoints' | 'requiredCompletionDate' | 'requiredSkills' | 'status' |
+  'jiraId' | 'jiraStatus' | 'isEpic' | 'epic' | 'priority' | 'assignee' | 'team' | 'dependencies';
+
+const isDate = (value: string) => !isNaN(Date.parse(value));
+
+const CsvWorkItemSchema = z.object({
+  title: z.string({ error: 'title is required' }),
+  description: z.string().optional(),
+  estimateStoryPoints: z.coerce.number({ error: 'estimateStoryPoints must be a number' }).positive('estimateStoryPoints must be greater than 0'),
+  requiredCompletionDate: z.string({ error: 'requiredCompletionDate is required' }).refine(isDate, 'requiredCompletionDate must be a date'),
+  requiredSkills: z.array(z.string()).min(1, 'requiredSkills needs at least one skill'),
+  status: z.enum(['Not Started', 'In Progress', 'Completed'], { error: 'status must be Not Started, In Progress or Completed' }).default('Not Started'),
+  jiraId: z.string().optional(),
+  jiraStatus: z.string().optional(),
+  isEpic: z.boolean({ error: 'isEpic must be true or false' }).default(false),
+  priority: z.enum(['Critical', 'High', 'Medium', 'Low'], { error: 'priority must be Critical, High, Medium or Low' }).default('Medium')
+});
+
+export interface CsvExportWorkItem {
+  id: string;
+  jiraId: string | null;
+  title: string;
+  description: string | null;
+  estimateStoryPoints: number;
+  requiredCompletionDate: Date;
+  requiredSkills: unknown;
+  status: string;
+  jiraStatus: string | null;
+  isEpic: boolean;
+  epicId: string | null;
+  priority: string;
+  assigneeId: string | null;
+  teamId: string | null;
+  dependencies: { dependsOn: { title: string } }[];
+  sprintAssignments: { sprint: { name: string } }[];
+}
+
+export interface WorkItemCsvContext {
+  workItems: { id: string; title: string; jiraId: string | null; isEpic: boolean; teamId: string | null }[]; // Live work items
+  teamMembers: { id: string; name: string; skills: unknown }[]; // Of the imported team, when importing into one
+  teams: { id: string; name: string }[];
+}
+
+// A reference to a work item that already exists, or to another row of the same file
+export type ImportItemRef = { workItemId: string } | { rowIndex: number };
+
+export interface PlannedWorkItem {
+  row: number;
+  data: Omit<WorkItemData, 'dependencies' | 'epicId'>;
+  epic: ImportItemRef | null;
+  dependencies: ImportItemRef[];
+}
+
+export interface CsvRowError {
+  row: number; // Row of the file as a spreadsheet numbers it, with the header as row 1
+  title: string | null;
+  errors: string[];
+}
+
+export interface WorkItemImportPlan {
+  items: PlannedWorkItem[];
+  errors: CsvRowError[];
+  warnings: string[];
+}
+
+const skillsOf = (value: unknown): string[] => (Array.isArray(value) ? (value as string[]) : []);
+const splitList = (value: string) => value.split(LIST_SEPARATOR).map(part => part.trim()).filter(part => part !== '');
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// One row per work item with the epic, assignee, team, dependencies and sprints given by name
+export function formatWorkItemsCsv(workItems: CsvExportWorkItem[], context: WorkItemCsvContext): string {
+  const memberNames = new Map(context.teamMembers.map(member => [member.id, member.name]));
+  const teamNames = new Map(context.teams.map(team => [team.id, team.name]));
+  const epicTitle = (epicId: string) => {
+    // Children reference their epic by database ID or by Jira key
+    const epic = context.workItems.find(item => item.isEpic && (item.id === epicId || item.jiraId === epicId));
+    return epic ? epic.title : epicId;
+  };
+
+  const rows = workItems.map(item => [
+    item.id,
+    item.jiraId || '',
+    item.title,
+    item.description || '',
+    String(item.estimateStoryPoints),
+    item.requiredCompletionDate.toISOString().slice(0, 10),
+    skillsOf(item.requiredSkills).join(`${LIST_SEPARATOR} `),
+    item.status,
+    item.jiraStatus || '',
+    String(item.isEpic),
+    item.epicId ? epicTitle(item.epicId) : '',
+    item.priority,
+    item.assigneeId ? memberNames.get(item.assigneeId) || item.assigneeId : '',
+    item.teamId ? teamNames.get(item.teamId) || item.teamId : '',
+    item.dependencies.map(dependency => dependency.dependsOn.title).join(`${LIST_SEPARATOR} `),
+    item.sprintAssignments.map(assignment => assignment.sprint.name).join(`${LIST_SEPARATOR} `)
+  ]);
+
+  return formatCsv([WORK_ITEM_CSV_COLUMNS, ...rows]);
+}
+
+function parseBoolean(value: string): boolean | string {
+  const normalized = value.toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return value; // Left for the schema to reject
+}
+
+// Turn parsed CSV rows into work items ready to create, resolving epics and dependencies by Jira ID
+// or title against the other rows and the existing work items. Every row is checked and every
+// problem reported, so a file can be fixed in one go; nothing should be created while errors remain.
+// With a teamId, rows default to that team and only resolve to that team's existing work items.
+export function planWorkItemImport(rows: string[][], context: WorkItemCsvContext, teamId?: string): WorkItemImportPlan {
+  const plan: WorkItemImportPlan = { items: [], errors: [], warnings: [] };
+  const [header = [], ...records] = rows;
+
+  // Header
+  const columns: (ImportField | null)[] = header.map(name => {
+    const key = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const field = HEADER_FIELDS[key];
+    if (!field && !IGNORED_HEADERS.includes(key) && key !== '') {
+      plan.warnings.push(`Ignored unknown column "${name}"`);
+    }
+    return field || null;
+  });
+  const missing = REQUIRED_FIELDS.filter(field => !columns.includes(field));
+  if (missing.length > 0) {
+    plan.errors.push({ row: 1, title: null, errors: [`Missing required column(s): ${missing.join(', ')}`] });
+    return plan;
+  }
+  if (records.length === 0) {
+    plan.errors.push({ row: 1, title: null, errors: ['The file has no work item rows'] });
+    return plan;
+  }
+
+  // Cells by field, with empty cells left out
+  const cells = records.map(record => {
+    const values: Partial<Record<ImportField, string>> = {};
+    columns.forEach((field, index) => {
+      const value = (record[index] || '').trim();
+      if (field && value !== '') values[field] = value;
+    });
+    return values;
+  });
+
+  const rowErrors: string[][] = records.map(() => []);
+  const parsed = cells.map((values, index) => {
+    const result = CsvWorkItemSchema.safeParse({
+      ...values,
+      requiredSkills: values.requiredSkills ? splitList(values.requiredSkills) : [],
+      isEpic: values.isEpic ? parseBoolean(values.isEpic) : undefined
+    });
+    if (!result.success) {
+      rowErrors[index].push(...result.error.issues.map(issue => issue.message));
+      return null;
+    }
+    return result.data;
+  });
+
+  // Resolve a reference by Jira ID first, then by title, across the file and the existing work items
+  const resolve = (reference: string, epicsOnly: boolean): ImportItemRef | string => {
+    const fileRows = parsed
+      .map((item, rowIndex) => ({ item, rowIndex }))
+      .filter(({ item }) => item && (!epicsOnly || item.isEpic));
+    const existing = context.workItems.filter(item => (!teamId || item.teamId === teamId) && (!epicsOnly || item.isEpic));
+
+    for (const matches of [
+      [
+        ...fileRows.filter(({ item }) => item!.jiraId && sameText(item!.jiraId, reference)).map(({ rowIndex }) => ({ rowIndex })),
+        ...existing.filter(item => item.jiraId && sameText(item.jiraId, reference)).map(item => ({ workItemId: item.id }))
+      ],
+      [
+        ...fileRows.filter(({ item }) => sameText(item!.title, reference)).map(({ rowIndex }) => ({ rowIndex })),
+        ...existing.filter(item => sameText(item.title, reference)).map(item => ({ workItemId: item.id }))
+      ]
+    ]) {
+      if (matches.length === 1) return matches[0];
+      if (matches.length > 1) return `"${reference}" matches ${matches.length} ${epicsOnly ? 'epics' : 'work items'}; use a Jira ID`;
+    }
+    return `Unknown ${epicsOnly ? 'epic' : 'work item'} "${reference}"`;
+  };
+
+  const seenJiraIds = new Map<string, number>();
+  parsed.forEach((item, index) => {
+    const values = cells[index];
+    const errors = rowErrors[index];
+    const row = index + 2;
+    if (!item) return;
+
+    // Jira IDs must be new, both in the file and in the planner
+    if (item.jiraId) {
+      const key = item.jiraId.toLowerCase();
+      const existing = context.workItems.find(workItem => workItem.jiraId && sameText(workItem.jiraId, item.jiraId!));
+      if (existing) errors.push(`Jira ID ${item.jiraId} already exists as work item ${existing.id}`);
+      if (seenJiraIds.has(key)) errors.push(`Jira ID ${item.jiraId} is repeated from row ${seenJiraIds.get(key)}`);
+      else seenJiraIds.set(key, row);
+    }
+
+    let estimateStoryPoints = item.estimateStoryPoints;
+    if (estimateStoryPoints > 100) {
+      plan.warnings.push(`Row ${row}: unreasonable story points value ${estimateStoryPoints} capped at 20`);
+      estimateStoryPoints = 20;
+    }
+
+    let epic: ImportItemRef | null = null;
+    if (values.epic) {
+      const resolved = resolve(values.epic, true);
+      if (typeof resolved === 'string') errors.push(resolved);
+      else if ('rowIndex' in resolved && resolved.rowIndex === index) errors.push('A work item cannot be its own epic');
+      else epic = resolved;
+    }
+
+    const dependencies: ImportItemRef[] = [];
+    for (const reference of values.dependencies ? splitList(values.dependencies) : []) {
+      const resolved = resolve(reference, false);
+      if (typeof resolved === 'string') errors.push(resolved);
+      else if ('rowIndex' in resolved && resolved.rowIndex === index) errors.push('A work item cannot depend on itself');
+      else if (!dependencies.some(dependency => JSON.stringify(dependency) === JSON.stringify(resolved))) dependencies.push(resolved);
+    }
+
+    let rowTeamId: string | null = teamId ?? null;
+    if (values.team) {
+      const team = context.teams.find(candidate => candidate.id === values.team || sameText(candidate.name, values.team!));
+      if (team) rowTeamId = team.id;
+      else errors.push(teamId ? `Team "${values.team}" is not the team being imported into` : `Unknown team "${values.team}"`);
+    }
+
+    // The assignee has to be able to do the work
+    let assigneeId: string | null = null;
+    if (values.assignee) {
+      const members = context.teamMembers.filter(member => member.id === values.assignee || sameText(member.name, values.assignee!));
+      if (members.length === 1) {
+        const missingSkills = item.requiredSkills.filter(skill => !skillsOf(members[0].skills).includes(skill));
+        if (missingSkills.length > 0) errors.push(`${members[0].name} does not have the required skill(s): ${missingSkills.join(', ')}`);
+        else assigneeId = members[0].id;
+      } else {
+        errors.push(members.length > 1 ? `"${values.assignee}" matches ${members.length} team members; use an ID` : `Unknown team member "${values.assignee}"`);
+      }
+    }
+
+    if (errors.length > 0) return;
+
+    plan.items.push({
+      row,
+      data: {
+        title: item.title,
+        description: item.description,
+        estimateStoryPoints,
+        requiredCompletionDate: item.requiredCompletionDate,
+        requiredSkills: item.requiredSkills as WorkItemData['requiredSkills'],
+        status: item.status,
+        jiraId: item.jiraId ?? null,
+        jiraStatus: item.jiraStatus ?? null,
+        isEpic: item.isEpic,
+        priority: item.priority,
+        assigneeId,
+        teamId: rowTeamId
+      },
+      epic,
+      dependencies
+    });
+  });
+
+  // Existing items never depend on new ones, so a cycle can only run through rows of this file
+  const rowKey = (rowIndex: number) => `row:${rowIndex}`;
+  const dependencyMap = buildDependencyMap(plan.items.flatMap(item => item.dependencies
+    .filter((dependency): dependency is { rowIndex: number } => 'rowIndex' in dependency)
+    .map(dependency => ({ workItemId: rowKey(item.row - 2), dependsOnId: rowKey(dependency.rowIndex) }))));
+  for (const cycle of findAllCycles(dependencyMap)) {
+    const cycleRows = cycle.map(key => Number(key.slice(4)) + 2);
+    for (const row of new Set(cycleRows)) {
+      rowErrors[row - 2].push(`Dependencies form a cycle through rows ${cycleRows.join(' → ')}`);
+    }
+  }
+
+  rowErrors.forEach((errors, index) => {
+    if (errors.length > 0) {
+      plan.errors.push({ row: index + 2, title: cells[index].title || null, errors });
+    }
+  });
+
+  return plan;
+}
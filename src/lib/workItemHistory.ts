@@ -0,0 +1,83 @@
+import { Prisma } from '@prisma/client';
+
+export type WorkItemEventSource = 'manual' | 'jira-sync' | 'scheduler';
+
+export const WORK_ITEM_EVENT_SOURCES: WorkItemEventSource[] = ['manual', 'jira-sync', 'scheduler'];
+
+// Work item columns whose changes are kept in the history
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'estimateStoryPoints',
+  'requiredCompletionDate',
+  'requiredSkills',
+  'status',
+  'jiraId',
+  'jiraStatus',
+  'epicId',
+  'isEpic',
+  'priority',
+  'assigneeId',
+  'teamId'
+] as const;
+
+export interface WorkItemChange {
+  workItemId: string;
+  field: string; // A work item column, 'dependencies', or 'sprint' for sprint assignment moves
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Dates are stored as ISO strings so old and new values compare and serialize the same way
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value === null ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+}
+
+// List the tracked fields that differ between two versions of a work item
+export function diffWorkItem(
+  workItemId: string,
+  before: { [field: string]: unknown },
+  after: { [field: string]: unknown }
+): WorkItemChange[] {
+  const changes: WorkItemChange[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    const oldValue = normalize(before[field]);
+    const newValue = normalize(after[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ workItemId, field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+// Append changes to the work item history, skipping no-op changes
+export async function recordWorkItemChanges(
+  client: Prisma.TransactionClient,
+  changes: WorkItemChange[],
+  source: WorkItemEventSource
+): Promise<number> {
+  const events = changes
+    .map(change => ({ ...change, oldValue: normalize(change.oldValue), newValue: normalize(change.newValue) }))
+    .filter(change => JSON.stringify(change.oldValue) !== JSON.stringify(change.newValue));
+
+  if (events.length === 0) return 0;
+
+  const result = await client.workItemEvent.createMany({
+    data: events.map(event => ({
+      workItemId: event.workItemId,
+      field: event.field,
+      oldValue: toJson(event.oldValue),
+      newValue: toJson(event.newValue),
+      source
+    }))
+  });
+
+  return result.count;
+}
@@ -0,0 +1,79 @@
+import express from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AUDIT_ACTIONS } from '../lib/audit';
+import { ApiResponse, ApiError } from '../types';
+
+const router = express.Router();
+
+const isDate = (value: string) => !isNaN(Date.parse(value));
+
+// Query filters for the audit log; actor matches a user ID or (part of) their email or name
+const AuditQuerySchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actor: z.string().min(1).optional(),
+  from: z.string().refine(isDate, 'from must be a date').optional(),
+  to: z.string().refine(isDate, 'to must be a date').optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// GET /api/audit - Audit log entries, newest first (?action=, ?actor=, ?from=, ?to=, ?limit=, ?offset=)
+router.get('/', async (req, res) => {
+  try {
+    const parsed = AuditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: `action must be one of ${AUDIT_ACTIONS.join(', ')}; from and to must be dates; limit is 1-500`,
+        details: parsed.error.issues
+      };
+      return res.status(400).json(apiError);
+    }
+    const { action, actor, from, to, limit, offset } = parsed.data;
+
+    const where: Prisma.AuditLogWhereInput = {
+      ...(action && { action }),
+      ...(actor && {
+        OR: [
+          { actorId: actor },
+          { actorName: { contains: actor, mode: 'insensitive' } }
+        ]
+      }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lte: new Date(to) })
+        }
+      })
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: {
+          createdAt: 'desc'
+        },
+        skip: offset,
+        take: limit
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    const response: ApiResponse<{ entries: typeof entries; total: number; limit: number; offset: number }> = {
+      data: { entries, total, limit, offset }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch audit log',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+export default router;
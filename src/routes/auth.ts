@@ -0,0 +1,54 @@
+import express from 'express';
+import { AuthUser, jwtConfigured, signJwt } from '../lib/auth';
+import { ApiResponse, ApiError } from '../types';
+
+const router = express.Router();
+
+// GET /api/auth/me - Get the authenticated caller and their role
+router.get('/me', (req, res) => {
+  const response: ApiResponse<AuthUser> = {
+    data: req.user!
+  };
+
+  res.json(response);
+});
+
+// POST /api/auth/token - Exchange the current credentials (usually an API key) for a short-lived JWT
+router.post('/token', (req, res) => {
+  try {
+    const user = req.user!;
+
+    if (!jwtConfigured()) {
+      const apiError: ApiError = {
+        error: 'JWT not configured',
+        message: 'Set JWT_SECRET to a long random value (not the example value) to issue bearer tokens'
+      };
+      return res.status(503).json(apiError);
+    }
+
+    if (user.method === 'bootstrap') {
+      const apiError: ApiError = {
+        error: 'Bootstrap key cannot be exchanged',
+        message: 'Create a user with POST /api/users and use their API key'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const { token, expiresAt } = signJwt(user);
+
+    const response: ApiResponse<{ token: string; tokenType: 'Bearer'; expiresAt: Date }> = {
+      data: { token, tokenType: 'Bearer', expiresAt }
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error issuing token:', error);
+    const apiError: ApiError = {
+      error: 'Failed to issue token',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+export default router;
@@ -1,13 +1,15 @@
 import express from 'express';
 import { prisma } from '../lib/prisma';
+import { checkTeam, getTeamFilter, holidayTeamScope } from '../lib/teamScope';
 import { PublicHolidayData, ApiResponse, ApiError } from '../types';
 
 const router = express.Router();
 
-// GET /api/holidays - Get all public holidays
+// GET /api/holidays - Get all public holidays (with ?teamId=, the team's plus the shared ones)
 router.get('/', async (req, res) => {
   try {
     const holidays = await prisma.publicHoliday.findMany({
+      where: holidayTeamScope(getTeamFilter(req)),
       orderBy: {
         date: 'asc'
       }
@@ -31,7 +33,7 @@ router.get('/', async (req, res) => {
 // POST /api/holidays - Create a new public holiday
 router.post('/', async (req, res) => {
   try {
-    const { name, date, impactPercentage }: PublicHolidayData = req.body;
+    const { name, date, impactPercentage, teamId }: PublicHolidayData = req.body;
 
     if (!name || !date || impactPercentage === undefined) {
       const apiError: ApiError = {
@@ -49,11 +51,17 @@ router.post('/', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
     const holiday = await prisma.publicHoliday.create({
       data: {
         name,
         date: new Date(date),
-        impactPercentage
+        impactPercentage,
+        teamId: teamId || null
       }
     });
 
@@ -77,7 +85,7 @@ router.post('/', async (req, res) => {
 router.put('/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, date, impactPercentage }: Partial<PublicHolidayData> = req.body;
+    const { name, date, impactPercentage, teamId }: Partial<PublicHolidayData> = req.body;
 
     const existingHoliday = await prisma.publicHoliday.findUnique({
       where: { id }
@@ -98,10 +106,16 @@ router.put('/:id', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
     if (date !== undefined) updateData.date = new Date(date);
     if (impactPercentage !== undefined) updateData.impactPercentage = impactPercentage;
+    if (teamId !== undefined) updateData.teamId = teamId || null;
 
     const holiday = await prisma.publicHoliday.update({
       where: { id },
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma';
+import { diffWorkItem, recordWorkItemChanges } from '../lib/workItemHistory';
+import { getTeamFilter, teamScope } from '../lib/teamScope';
+import { recordAudit } from '../lib/audit';
 
 const router = Router();
 
@@ -788,6 +791,7 @@ router.delete('/epic/:epicId', async (req, res) => {
     // In the future, this would delete from database:
     // await Epic.delete({ where: { id: epicId } });
     
+    await recordAudit(req, 'jira-epic-delete', { epicId }, { workItems: 0 });
     console.log(`✅ Epic ${epicId} deletion processed successfully`);
     res.json({ 
       success: true,
@@ -1180,12 +1184,15 @@ async function syncSprintData(jiraSprint: any) {
 
         if (completedInJira && workItem.status !== 'Completed') {
           // Update work item status to completed
-          await prisma.workItem.update({
-            where: { id: workItem.id },
-            data: {
-              status: 'Completed',
-              jiraStatus: 'Done'
-            }
+          await prisma.$transaction(async (tx) => {
+            const updated = await tx.workItem.update({
+              where: { id: workItem.id },
+              data: {
+                status: 'Completed',
+                jiraStatus: 'Done'
+              }
+            });
+            await recordWorkItemChanges(tx, diffWorkItem(workItem.id, workItem, updated), 'jira-sync');
           });
 
           updatedWorkItems.push({
@@ -1312,6 +1319,7 @@ router.post('/test-sync', async (req, res) => {
 router.post('/sync-past-sprints', async (req, res) => {
   try {
     const { projectKey, dateRange } = req.body;
+    const teamId: string | undefined = req.body.teamId || getTeamFilter(req);
     
     if (!projectKey) {
       return res.status(400).json({ 
@@ -1344,6 +1352,7 @@ router.post('/sync-past-sprints', async (req, res) => {
     const pastSprints = await prisma.sprint.findMany({
       where: {
         archived: false,
+        ...teamScope(teamId),
         endDate: { lt: new Date() } // Only past sprints
       },
       include: {
@@ -1506,6 +1515,15 @@ async function syncCompletedTicketToSprint(jiraIssue: any, pastSprints: any[], s
     where: { jiraId: ticketKey }
   });
 
+  // Leave items someone moved to the trash there rather than syncing them back into a sprint
+  if (workItem?.deletedAt) {
+    return {
+      ticketKey,
+      status: 'in_trash',
+      message: 'Work item for this ticket is in the trash'
+    };
+  }
+
   if (!workItem) {
     // Create new work item from Jira ticket
     const skills = (jiraIssue.fields.labels || []).filter((label: string) => 
@@ -1524,7 +1542,8 @@ async function syncCompletedTicketToSprint(jiraIssue: any, pastSprints: any[], s
         requiredCompletionDate: updatedDate, // Use completion date
         requiredSkills: detectedSkills,
         status: 'Completed', // Mark as completed since it's done in Jira
-        jiraStatus: 'Done'
+        jiraStatus: 'Done',
+        teamId: targetSprint.teamId
       }
     });
 
@@ -1532,12 +1551,17 @@ async function syncCompletedTicketToSprint(jiraIssue: any, pastSprints: any[], s
   } else {
     // Update existing work item status if not already completed
     if (workItem.status !== 'Completed') {
-      await prisma.workItem.update({
-        where: { id: workItem.id },
-        data: {
-          status: 'Completed',
-          jiraStatus: 'Done'
-        }
+      const previous = workItem;
+      workItem = await prisma.$transaction(async (tx) => {
+        const updated = await tx.workItem.update({
+          where: { id: previous.id },
+          data: {
+            status: 'Completed',
+            jiraStatus: 'Done'
+          }
+        });
+        await recordWorkItemChanges(tx, diffWorkItem(previous.id, previous, updated), 'jira-sync');
+        return updated;
       });
       console.log(`🔄 Updated work item ${ticketKey} status to Completed`);
     }
@@ -1555,11 +1579,15 @@ async function syncCompletedTicketToSprint(jiraIssue: any, pastSprints: any[], s
 
   if (!existingAssignment) {
     // Assign work item to sprint
-    await prisma.sprintWorkItem.create({
-      data: {
-        sprintId: targetSprint.id,
-        workItemId: workItem.id
-      }
+    const workItemId = workItem.id;
+    await prisma.$transaction(async (tx) => {
+      await tx.sprintWorkItem.create({
+        data: {
+          sprintId: targetSprint.id,
+          workItemId
+        }
+      });
+      await recordWorkItemChanges(tx, [{ workItemId, field: 'sprint', oldValue: null, newValue: targetSprint.id }], 'jira-sync');
     });
     console.log(`🔗 Assigned work item ${ticketKey} to sprint ${targetSprint.name}`);
   }
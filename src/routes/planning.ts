@@ -0,0 +1,704 @@
+import express from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { calculateSprintCapacity, loadCapacityInputs } from '../lib/capacity';
+import { buildSchedulePlan, SchedulePlan } from '../lib/scheduler';
+import { percentile, projectSprint, simulateSprintsToComplete } from '../lib/forecast';
+import { analyseCriticalPath } from '../lib/criticalPath';
+import { assessDeadlineRisk, RiskSeverity } from '../lib/deadlineRisk';
+import { loadSprintCommitments, SprintCommitment } from '../lib/commitment';
+import { recordWorkItemChanges } from '../lib/workItemHistory';
+import { configInForce, loadConfigVersions } from '../lib/sprintCalendar';
+import { getTeamFilter, teamScope } from '../lib/teamScope';
+import { ApiResponse, ApiError } from '../types';
+
+const router = express.Router();
+
+// Schema for the auto-scheduler request
+const ScheduleRequestSchema = z.object({
+  mode: z.enum(['preview', 'commit']).default('preview'),
+  workItemIds: z.array(z.string()).optional(),
+  teamId: z.string().optional() // Schedule one team's backlog into its own sprints
+});
+
+// The scheduler reads the backlog and sprints and writes its plan in one serializable transaction
+const SCHEDULE_TRANSACTION_TIMEOUT = 30 * 1000;
+
+// Helper function to load the backlog, upcoming sprints and member capacity and build the schedule
+// from them; null when there is no current or future sprint. Committing passes its transaction client
+// so the plan is built from the same rows it is written against.
+async function loadSchedulePlan(
+  client: Prisma.TransactionClient,
+  teamId: string | undefined,
+  workItemIds: string[] | undefined
+): Promise<SchedulePlan | null> {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  const [sprints, workItems, { teamMembers, publicHolidays }] = await Promise.all([
+    client.sprint.findMany({
+      where: {
+        archived: false,
+        ...teamScope(teamId),
+        endDate: { gte: today }
+      },
+      include: {
+        workItemAssignments: {
+          include: {
+            workItem: true
+          }
+        }
+      },
+      orderBy: {
+        startDate: 'asc'
+      }
+    }),
+    client.workItem.findMany({
+      where: { isEpic: false, deletedAt: null, ...teamScope(teamId) },
+      include: {
+        dependencies: true,
+        sprintAssignments: true
+      }
+    }),
+    loadCapacityInputs(teamId, client)
+  ]);
+
+  if (sprints.length === 0) return null;
+
+  return buildSchedulePlan({
+    workItems: workItems.map(item => ({
+      id: item.id,
+      title: item.title,
+      estimateStoryPoints: item.estimateStoryPoints,
+      requiredCompletionDate: item.requiredCompletionDate,
+      requiredSkills: Array.isArray(item.requiredSkills) ? (item.requiredSkills as string[]) : [],
+      status: item.status,
+      priority: item.priority,
+      dependencies: item.dependencies.map(dep => dep.dependsOnId),
+      assignedSprintIds: item.sprintAssignments.map(assignment => assignment.sprintId),
+      assigneeId: item.assigneeId
+    })),
+    sprints: sprints.map(sprint => {
+      const capacity = calculateSprintCapacity(sprint, teamMembers, publicHolidays);
+      const committed = sprint.workItemAssignments
+        .map(assignment => assignment.workItem)
+        .filter(workItem => !workItem.isEpic);
+
+      // Each member's share of the sprint capacity, less the points already assigned to them there
+      const memberPoints: { [teamMemberId: string]: number } = {};
+      for (const member of capacity.members) {
+        memberPoints[member.teamMemberId] = member.availablePoints - committed
+          .filter(workItem => workItem.assigneeId === member.teamMemberId)
+          .reduce((total, workItem) => total + workItem.estimateStoryPoints, 0);
+      }
+
+      return {
+        id: sprint.id,
+        name: sprint.name,
+        startDate: sprint.startDate,
+        endDate: sprint.endDate,
+        capacity: capacity.availableVelocity,
+        committedPoints: committed.reduce((total, workItem) => total + workItem.estimateStoryPoints, 0),
+        memberPoints
+      };
+    }),
+    teamMembers: teamMembers.map(member => ({ id: member.id, name: member.name, skills: member.skills })),
+    backlogIds: workItemIds
+  });
+}
+
+// POST /api/planning/schedule - Assign the unassigned backlog to upcoming sprints
+router.post('/schedule', async (req, res) => {
+  try {
+    const parsed = ScheduleRequestSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: 'mode must be "preview" or "commit" and workItemIds must be an array of IDs',
+        details: parsed.error.issues
+      };
+      return res.status(400).json(apiError);
+    }
+    const { mode, workItemIds } = parsed.data;
+    const teamId = parsed.data.teamId || getTeamFilter(req);
+
+    const plan = mode !== 'commit'
+      ? await loadSchedulePlan(prisma, teamId, workItemIds)
+      : await prisma.$transaction(async (tx) => {
+        const scheduled = await loadSchedulePlan(tx, teamId, workItemIds);
+        if (!scheduled || scheduled.assignments.length === 0) return scheduled;
+
+        await tx.sprintWorkItem.createMany({
+          data: scheduled.assignments.map(assignment => ({
+            sprintId: assignment.sprintId,
+            workItemId: assignment.workItemId
+          })),
+          skipDuplicates: true
+        });
+
+        // Unassigned items go to the member whose capacity they were scheduled against
+        const newAssignees = scheduled.assignments.filter(assignment => assignment.newAssignee);
+        for (const assignment of newAssignees) {
+          await tx.workItem.update({
+            where: { id: assignment.workItemId },
+            data: { assigneeId: assignment.assigneeId }
+          });
+        }
+
+        await recordWorkItemChanges(tx, [
+          ...scheduled.assignments.map(assignment => ({
+            workItemId: assignment.workItemId,
+            field: 'sprint',
+            oldValue: null,
+            newValue: assignment.sprintId
+          })),
+          ...newAssignees.map(assignment => ({
+            workItemId: assignment.workItemId,
+            field: 'assigneeId',
+            oldValue: null,
+            newValue: assignment.assigneeId
+          }))
+        ], 'scheduler');
+        return scheduled;
+      }, {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        timeout: SCHEDULE_TRANSACTION_TIMEOUT
+      });
+
+    if (!plan) {
+      const apiError: ApiError = {
+        error: 'No sprints available',
+        message: 'There are no current or future sprints to schedule work into'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    console.log(`🗓️ Auto-scheduler (${mode}): ${plan.assignments.length} assignments, ${plan.unschedulable.length} unschedulable`);
+    if (mode === 'commit' && plan.assignments.length > 0) {
+      console.log(`✅ Committed ${plan.assignments.length} scheduled sprint assignments`);
+    }
+
+    const response: ApiResponse<SchedulePlan & { mode: string; committed: boolean }> = {
+      data: {
+        mode,
+        committed: mode === 'commit',
+        ...plan
+      },
+      message: mode === 'commit'
+        ? `Scheduled ${plan.assignments.length} work items into sprints`
+        : `Proposed ${plan.assignments.length} sprint assignments`
+    };
+
+    res.json(response);
+  } catch (error) {
+    // P2034: the backlog or sprints changed while the plan was being committed
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      const apiError: ApiError = {
+        error: 'Schedule conflict',
+        message: 'Work items or sprints changed while the schedule was being committed; run it again'
+      };
+      return res.status(409).json(apiError);
+    }
+
+    console.error('Error scheduling work items:', error);
+    const apiError: ApiError = {
+      error: 'Failed to schedule work items',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/planning/forecast/epics/:epicId - Monte Carlo delivery forecast for an epic
+router.get('/forecast/epics/:epicId', async (req, res) => {
+  try {
+    const { epicId } = req.params;
+    const simulations = Math.min(100000, Math.max(100, parseInt(req.query.simulations as string) || 10000));
+    const historySize = Math.min(50, Math.max(1, parseInt(req.query.historySize as string) || 10));
+
+    const epic = await prisma.workItem.findFirst({
+      where: { id: epicId, deletedAt: null }
+    });
+
+    if (!epic || !epic.isEpic) {
+      const apiError: ApiError = {
+        error: 'Epic not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    // The epic's own team delivers it unless ?teamId= says otherwise
+    const teamId = getTeamFilter(req) || epic.teamId || undefined;
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+
+    const [children, historicalSprints, upcomingSprints, configVersions] = await Promise.all([
+      // Epic children reference the epic by database ID or by Jira key
+      prisma.workItem.findMany({
+        where: {
+          isEpic: false,
+          deletedAt: null,
+          OR: [
+            { epicId: epic.id },
+            ...(epic.jiraId ? [{ epicId: epic.jiraId }] : [])
+          ]
+        }
+      }),
+      prisma.sprint.findMany({
+        where: {
+          ...teamScope(teamId),
+          actualVelocity: { not: null },
+          endDate: { lt: today }
+        },
+        orderBy: {
+          startDate: 'desc'
+        },
+        take: historySize
+      }),
+      prisma.sprint.findMany({
+        where: {
+          archived: false,
+          ...teamScope(teamId),
+          endDate: { gte: today }
+        },
+        orderBy: {
+          startDate: 'asc'
+        }
+      }),
+      loadConfigVersions(teamId)
+    ]);
+
+    const totalStoryPoints = children.reduce((total, child) => total + child.estimateStoryPoints, 0);
+    const completedStoryPoints = children
+      .filter(child => child.status === 'Completed')
+      .reduce((total, child) => total + child.estimateStoryPoints, 0);
+    const remainingStoryPoints = totalStoryPoints - completedStoryPoints;
+
+    const velocities = historicalSprints
+      .map(sprint => sprint.actualVelocity as number)
+      .filter(velocity => velocity > 0);
+
+    if (remainingStoryPoints > 0 && velocities.length === 0) {
+      const apiError: ApiError = {
+        error: 'No velocity history',
+        message: 'At least one past sprint with an actual velocity is needed to forecast'
+      };
+      return res.status(422).json(apiError);
+    }
+
+    // Sprints projected past the known ones follow the cadence in force after the last of them
+    const lastKnownDate = upcomingSprints.length > 0 ? upcomingSprints[upcomingSprints.length - 1].endDate : today;
+    const config = configInForce(configVersions, lastKnownDate);
+    const sprintDurationDays = config?.sprintDurationDays || 14;
+    const results = simulateSprintsToComplete(remainingStoryPoints, velocities, simulations);
+    const projectPercentile = (p: number) => {
+      const sprintsNeeded = percentile(results, p);
+      return Number.isFinite(sprintsNeeded)
+        ? projectSprint(upcomingSprints, sprintsNeeded, sprintDurationDays, today)
+        : null;
+    };
+
+    // Share of runs that finish on or before the epic's required completion date
+    const deadline = epic.requiredCompletionDate.getTime();
+    const runsMeetingDeadline = results.filter(sprintsNeeded =>
+      Number.isFinite(sprintsNeeded) &&
+      projectSprint(upcomingSprints, sprintsNeeded, sprintDurationDays, today).completionDate.getTime() <= deadline
+    ).length;
+
+    const forecast = {
+      epicId: epic.id,
+      jiraId: epic.jiraId,
+      title: epic.title,
+      requiredCompletionDate: epic.requiredCompletionDate,
+      totalStoryPoints,
+      completedStoryPoints,
+      remainingStoryPoints,
+      simulations,
+      velocityHistory: velocities,
+      p50: projectPercentile(50),
+      p85: projectPercentile(85),
+      p95: projectPercentile(95),
+      probabilityOfMeetingDeadline: Math.round((runsMeetingDeadline / simulations) * 1000) / 1000
+    };
+
+    console.log(`🎲 Forecast for epic "${epic.title}": ${remainingStoryPoints} points remaining, P85 = ${forecast.p85?.sprintName ?? 'never'}`);
+
+    const response: ApiResponse<typeof forecast> = {
+      data: forecast
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error forecasting epic delivery:', error);
+    const apiError: ApiError = {
+      error: 'Failed to forecast epic delivery',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/planning/critical-path - Critical path and slack for an epic (?epicId=) or the whole backlog
+router.get('/critical-path', async (req, res) => {
+  try {
+    const epicId = typeof req.query.epicId === 'string' ? req.query.epicId : undefined;
+    const teamId = getTeamFilter(req);
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+
+    const [workItems, historicalSprints, configVersions] = await Promise.all([
+      prisma.workItem.findMany({
+        where: { isEpic: false, deletedAt: null, ...teamScope(teamId) },
+        include: {
+          dependencies: true,
+          sprintAssignments: {
+            include: {
+              sprint: true
+            }
+          }
+        }
+      }),
+      prisma.sprint.findMany({
+        where: {
+          ...teamScope(teamId),
+          actualVelocity: { gt: 0 },
+          endDate: { lt: today }
+        },
+        orderBy: {
+          startDate: 'desc'
+        },
+        take: 6
+      }),
+      loadConfigVersions(teamId)
+    ]);
+
+    let scopeIds: string[];
+    if (epicId) {
+      const epic = await prisma.workItem.findFirst({ where: { id: epicId, deletedAt: null } });
+      if (!epic || !epic.isEpic) {
+        const apiError: ApiError = {
+          error: 'Epic not found'
+        };
+        return res.status(404).json(apiError);
+      }
+      scopeIds = workItems
+        .filter(item => item.epicId === epic.id || (epic.jiraId && item.epicId === epic.jiraId))
+        .map(item => item.id);
+    } else {
+      scopeIds = workItems.map(item => item.id);
+    }
+
+    // Pull in unfinished dependencies from outside the scope, as they still gate the work
+    const itemsById = new Map(workItems.map(item => [item.id, item]));
+    const inScope = new Set<string>();
+    const queue = [...scopeIds];
+    while (queue.length > 0) {
+      const id = queue.pop()!;
+      const item = itemsById.get(id);
+      if (!item || item.status === 'Completed' || inScope.has(id)) continue;
+      inScope.add(id);
+      queue.push(...item.dependencies.map(dep => dep.dependsOnId));
+    }
+
+    // Story points become days through the recent average velocity
+    const config = configInForce(configVersions, today);
+    const sprintDurationDays = config?.sprintDurationDays || 14;
+    const velocity = historicalSprints.length > 0
+      ? historicalSprints.reduce((total, sprint) => total + (sprint.actualVelocity || 0), 0) / historicalSprints.length
+      : config?.defaultVelocity || 20;
+    const pointsPerDay = velocity / sprintDurationDays;
+
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const scopedItems = Array.from(inScope).map(id => itemsById.get(id)!);
+    const result = analyseCriticalPath(
+      scopedItems.map(item => {
+        // An item assigned to a future sprint cannot start before that sprint does
+        const sprintStarts = item.sprintAssignments.map(assignment => assignment.sprint.startDate.getTime());
+        const releaseOffsetDays = sprintStarts.length > 0
+          ? Math.max(0, (Math.max(...sprintStarts) - today.getTime()) / DAY_MS)
+          : 0;
+
+        return {
+          id: item.id,
+          storyPoints: item.estimateStoryPoints,
+          dependencies: item.dependencies.map(dep => dep.dependsOnId),
+          releaseOffsetDays
+        };
+      }),
+      pointsPerDay
+    );
+
+    if (result.cyclic.length > 0) {
+      const apiError: ApiError = {
+        error: 'Dependency cycle detected',
+        message: 'The critical path cannot be computed while the dependency graph contains a cycle',
+        details: { workItemIds: result.cyclic }
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const toDate = (offsetDays: number) => new Date(today.getTime() + offsetDays * DAY_MS);
+
+    const items = scopedItems.map(item => {
+      const node = result.nodes.get(item.id)!;
+      const projectedFinishDate = toDate(node.earliestFinish);
+      const daysLate = (projectedFinishDate.getTime() - item.requiredCompletionDate.getTime()) / DAY_MS;
+
+      return {
+        id: item.id,
+        title: item.title,
+        jiraId: item.jiraId,
+        epicId: item.epicId,
+        storyPoints: item.estimateStoryPoints,
+        dependencies: item.dependencies.map(dep => dep.dependsOnId),
+        assignedSprints: item.sprintAssignments.map(assignment => assignment.sprintId),
+        durationDays: round(node.durationDays),
+        earliestStart: round(node.earliestStart),
+        earliestFinish: round(node.earliestFinish),
+        latestStart: round(node.latestStart),
+        latestFinish: round(node.latestFinish),
+        slackDays: round(node.slackDays),
+        isCritical: node.isCritical,
+        projectedFinishDate,
+        requiredCompletionDate: item.requiredCompletionDate,
+        atRisk: daysLate > 0,
+        daysLate: daysLate > 0 ? round(daysLate) : 0
+      };
+    }).sort((a, b) => a.earliestStart - b.earliestStart);
+
+    const analysis = {
+      epicId: epicId || null,
+      velocity: round(velocity),
+      pointsPerDay: round(pointsPerDay),
+      projectDurationDays: round(result.projectDurationDays),
+      projectedCompletionDate: toDate(result.projectDurationDays),
+      criticalPath: result.criticalPath.map(id => ({ id, title: itemsById.get(id)!.title })),
+      atRiskCount: items.filter(item => item.atRisk).length,
+      items
+    };
+
+    const response: ApiResponse<typeof analysis> = {
+      data: analysis
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error computing critical path:', error);
+    const apiError: ApiError = {
+      error: 'Failed to compute critical path',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/planning/deadline-risk - Work items whose schedule threatens their required completion date
+router.get('/deadline-risk', async (req, res) => {
+  try {
+    const horizonDays = Math.max(1, parseInt(req.query.horizonDays as string) || 90);
+
+    const scope = teamScope(getTeamFilter(req));
+
+    const [workItems, sprints] = await Promise.all([
+      prisma.workItem.findMany({
+        where: { deletedAt: null, ...scope },
+        include: {
+          dependencies: true,
+          sprintAssignments: true
+        }
+      }),
+      prisma.sprint.findMany({
+        where: scope
+      })
+    ]);
+
+    const now = new Date();
+    const groups = assessDeadlineRisk(
+      workItems.map(item => ({
+        id: item.id,
+        title: item.title,
+        jiraId: item.jiraId,
+        estimateStoryPoints: item.estimateStoryPoints,
+        requiredCompletionDate: item.requiredCompletionDate,
+        status: item.status,
+        priority: item.priority,
+        isEpic: item.isEpic,
+        epicId: item.epicId,
+        dependencies: item.dependencies.map(dep => dep.dependsOnId),
+        assignedSprintIds: item.sprintAssignments.map(assignment => assignment.sprintId)
+      })),
+      sprints,
+      now,
+      horizonDays
+    );
+
+    const allItems = groups.flatMap(group => group.items);
+    const summary: { [severity in RiskSeverity]: number } = { critical: 0, high: 0, medium: 0, low: 0 };
+    for (const item of allItems) {
+      summary[item.severity]++;
+    }
+
+    console.log(`⏰ Deadline risk report: ${allItems.length} at-risk items across ${groups.length} group(s)`);
+
+    const response: ApiResponse<{
+      generatedAt: Date;
+      horizonDays: number;
+      totalAtRisk: number;
+      summary: typeof summary;
+      epics: typeof groups;
+    }> = {
+      data: {
+        generatedAt: now,
+        horizonDays,
+        totalAtRisk: allItems.length,
+        summary,
+        epics: groups
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error building deadline risk report:', error);
+    const apiError: ApiError = {
+      error: 'Failed to build deadline risk report',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// Schema for accepting suggested replanning moves; the suggestion objects can be posted back as-is
+const ApplyMovesRequestSchema = z.object({
+  moves: z.array(z.object({
+    workItemId: z.string(),
+    fromSprintId: z.string(),
+    toSprintId: z.string()
+  })).min(1)
+});
+
+// POST /api/planning/moves/apply - Accept suggested moves of work items between sprints in one call
+router.post('/moves/apply', async (req, res) => {
+  try {
+    const parsed = ApplyMovesRequestSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: 'moves must be a non-empty array of { workItemId, fromSprintId, toSprintId }',
+        details: parsed.error.issues
+      };
+      return res.status(400).json(apiError);
+    }
+    const { moves } = parsed.data;
+
+    // Each work item can only be moved once per call
+    const repeatedMoves = moves.filter((move, index) => moves.findIndex(other => other.workItemId === move.workItemId) !== index);
+    if (repeatedMoves.length > 0) {
+      const apiError: ApiError = {
+        error: 'Duplicate moves',
+        message: 'Each work item can appear in only one move',
+        details: { workItemIds: Array.from(new Set(repeatedMoves.map(move => move.workItemId))) }
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const sprintIds = Array.from(new Set(moves.flatMap(move => [move.fromSprintId, move.toSprintId])));
+    const sprints = await prisma.sprint.findMany({
+      where: { id: { in: sprintIds } }
+    });
+    const missingSprintIds = sprintIds.filter(id => !sprints.some(sprint => sprint.id === id));
+    if (missingSprintIds.length > 0) {
+      const apiError: ApiError = {
+        error: 'Sprint not found',
+        details: { sprintIds: missingSprintIds }
+      };
+      return res.status(404).json(apiError);
+    }
+
+    // Closed sprints are history: nothing moves out of or into them
+    const closedSprintIds = new Set(sprints.filter(sprint => sprint.state === 'closed').map(sprint => sprint.id));
+    const closedSprintMoves = moves.filter(move => closedSprintIds.has(move.fromSprintId) || closedSprintIds.has(move.toSprintId));
+    if (closedSprintMoves.length > 0) {
+      const apiError: ApiError = {
+        error: 'Invalid sprint state',
+        message: 'Work items cannot be moved out of or into closed sprints',
+        details: { moves: closedSprintMoves }
+      };
+      return res.status(409).json(apiError);
+    }
+
+    // Work stays within its team
+    const teamOf = new Map(sprints.map(sprint => [sprint.id, sprint.teamId]));
+    const crossTeamMoves = moves.filter(move => teamOf.get(move.fromSprintId) !== teamOf.get(move.toSprintId));
+    if (crossTeamMoves.length > 0) {
+      const apiError: ApiError = {
+        error: 'Team mismatch',
+        message: 'Work items can only be moved between sprints of the same team',
+        details: { moves: crossTeamMoves }
+      };
+      return res.status(400).json(apiError);
+    }
+
+    // Every move must still match the current plan, otherwise nothing is applied
+    const existing = await prisma.sprintWorkItem.findMany({
+      where: {
+        OR: moves.map(move => ({ sprintId: move.fromSprintId, workItemId: move.workItemId }))
+      }
+    });
+    const staleMoves = moves.filter(move =>
+      !existing.some(assignment => assignment.sprintId === move.fromSprintId && assignment.workItemId === move.workItemId)
+    );
+    if (staleMoves.length > 0) {
+      const apiError: ApiError = {
+        error: 'Stale moves',
+        message: 'Some work items are no longer assigned to the sprint they would be moved from',
+        details: { moves: staleMoves }
+      };
+      return res.status(409).json(apiError);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const move of moves) {
+        await tx.sprintWorkItem.delete({
+          where: {
+            sprintId_workItemId: {
+              sprintId: move.fromSprintId,
+              workItemId: move.workItemId
+            }
+          }
+        });
+        await tx.sprintWorkItem.createMany({
+          data: [{ sprintId: move.toSprintId, workItemId: move.workItemId }],
+          skipDuplicates: true
+        });
+      }
+      await recordWorkItemChanges(tx, moves.map(move => ({
+        workItemId: move.workItemId,
+        field: 'sprint',
+        oldValue: move.fromSprintId,
+        newValue: move.toSprintId
+      })), 'scheduler');
+    });
+
+    const commitments = await loadSprintCommitments({ id: { in: sprintIds } });
+
+    const response: ApiResponse<{ applied: number; sprints: SprintCommitment[] }> = {
+      data: { applied: moves.length, sprints: commitments },
+      message: `Applied ${moves.length} move(s)`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error applying replanning moves:', error);
+    const apiError: ApiError = {
+      error: 'Failed to apply moves',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+export default router;
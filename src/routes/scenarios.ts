@@ -0,0 +1,980 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { checkTeam, getTeamFilter, teamScope } from '../lib/teamScope';
+import { recordAudit } from '../lib/audit';
+import {
+  ScenarioPlan,
+  comparePlans,
+  evaluatePlan,
+  forkLivePlan,
+  loadPlanWorkItems,
+  promotePlan
+} from '../lib/scenarios';
+import {
+  ScenarioData,
+  TeamMemberData,
+  PersonalHolidayData,
+  PublicHolidayData,
+  SprintData,
+  ApiResponse,
+  ApiError
+} from '../types';
+
+const router = express.Router();
+
+// Helper function to load a scenario together with its forked plan
+async function loadScenario(id: string) {
+  const scenario = await prisma.scenario.findUnique({
+    where: { id }
+  });
+
+  return scenario ? { scenario, plan: scenario.data as unknown as ScenarioPlan } : null;
+}
+
+// Helper function to write an edited plan back to its scenario
+async function saveScenarioPlan(id: string, plan: ScenarioPlan) {
+  return prisma.scenario.update({
+    where: { id },
+    data: {
+      data: plan as unknown as Prisma.InputJsonValue
+    }
+  });
+}
+
+// Helper function to send the standard 404 for a missing scenario
+function scenarioNotFound(res: express.Response) {
+  const apiError: ApiError = {
+    error: 'Scenario not found'
+  };
+  return res.status(404).json(apiError);
+}
+
+// GET /api/scenarios - List scenarios, or a team's with ?teamId= (without their plan data)
+router.get('/', async (req, res) => {
+  try {
+    const scenarios = await prisma.scenario.findMany({
+      where: teamScope(getTeamFilter(req)),
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        teamId: true,
+        promotedAt: true,
+        createdAt: true,
+        updatedAt: true
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    const response: ApiResponse<typeof scenarios> = {
+      data: scenarios
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching scenarios:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch scenarios',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/scenarios - Fork the live plan (or one team's) into a new scenario
+router.post('/', async (req, res) => {
+  try {
+    const { name, description }: ScenarioData = req.body;
+    const teamId = req.body.teamId || getTeamFilter(req);
+
+    if (!name) {
+      const apiError: ApiError = {
+        error: 'Missing required fields',
+        message: 'name is required'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
+    const plan = await forkLivePlan(teamId);
+    const scenario = await prisma.scenario.create({
+      data: {
+        name,
+        description,
+        teamId: teamId || null,
+        data: plan as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    console.log(`🧪 Created scenario "${name}" from ${plan.sprints.length} sprints and ${plan.teamMembers.length} team members`);
+
+    const response: ApiResponse<typeof scenario> = {
+      data: scenario,
+      message: 'Scenario created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating scenario:', error);
+    const apiError: ApiError = {
+      error: 'Failed to create scenario',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/scenarios/:id - Get a scenario with its plan
+router.get('/:id', async (req, res) => {
+  try {
+    const loaded = await loadScenario(req.params.id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const response: ApiResponse<typeof loaded.scenario> = {
+      data: loaded.scenario
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching scenario:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch scenario',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// PUT /api/scenarios/:id - Rename or re-describe a scenario
+router.put('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description }: Partial<ScenarioData> = req.body;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const scenario = await prisma.scenario.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(description !== undefined && { description })
+      }
+    });
+
+    const response: ApiResponse<typeof scenario> = {
+      data: scenario,
+      message: 'Scenario updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating scenario:', error);
+    const apiError: ApiError = {
+      error: 'Failed to update scenario',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/scenarios/:id - Discard a scenario
+router.delete('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    await prisma.scenario.delete({
+      where: { id }
+    });
+
+    const response: ApiResponse<{ id: string }> = {
+      data: { id },
+      message: 'Scenario deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting scenario:', error);
+    const apiError: ApiError = {
+      error: 'Failed to delete scenario',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/scenarios/:id/team-members - Get the scenario's team members
+router.get('/:id/team-members', async (req, res) => {
+  try {
+    const loaded = await loadScenario(req.params.id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const response: ApiResponse<ScenarioPlan['teamMembers']> = {
+      data: loaded.plan.teamMembers
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching scenario team members:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch scenario team members',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/scenarios/:id/team-members - Add a team member to the scenario
+router.post('/:id/team-members', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, capacity, skills, teamId }: TeamMemberData = req.body;
+
+    if (!name || capacity === undefined || !skills || !Array.isArray(skills)) {
+      const apiError: ApiError = {
+        error: 'Missing required fields',
+        message: 'name, capacity, and skills are required'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    if (capacity < 0 || capacity > 100) {
+      const apiError: ApiError = {
+        error: 'Invalid capacity',
+        message: 'Capacity must be between 0 and 100'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    // Rows added to a team scenario belong to its team
+    const teamMember = { id: randomUUID(), name, capacity, skills, teamId: teamId ?? loaded.scenario.teamId, personalHolidays: [] };
+    loaded.plan.teamMembers.push(teamMember);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<typeof teamMember> = {
+      data: teamMember,
+      message: 'Scenario team member created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating scenario team member:', error);
+    const apiError: ApiError = {
+      error: 'Failed to create scenario team member',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// PUT /api/scenarios/:id/team-members/:memberId - Update a team member in the scenario
+router.put('/:id/team-members/:memberId', async (req, res) => {
+  try {
+    const { id, memberId } = req.params;
+    const { name, capacity, skills }: Partial<TeamMemberData> = req.body;
+
+    if (capacity !== undefined && (capacity < 0 || capacity > 100)) {
+      const apiError: ApiError = {
+        error: 'Invalid capacity',
+        message: 'Capacity must be between 0 and 100'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const teamMember = loaded.plan.teamMembers.find(member => member.id === memberId);
+    if (!teamMember) {
+      const apiError: ApiError = {
+        error: 'Team member not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    if (name) teamMember.name = name;
+    if (capacity !== undefined) teamMember.capacity = capacity;
+    if (skills) teamMember.skills = skills;
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<typeof teamMember> = {
+      data: teamMember,
+      message: 'Scenario team member updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating scenario team member:', error);
+    const apiError: ApiError = {
+      error: 'Failed to update scenario team member',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/scenarios/:id/team-members/:memberId - Remove a team member from the scenario
+router.delete('/:id/team-members/:memberId', async (req, res) => {
+  try {
+    const { id, memberId } = req.params;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    if (!loaded.plan.teamMembers.some(member => member.id === memberId)) {
+      const apiError: ApiError = {
+        error: 'Team member not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    loaded.plan.teamMembers = loaded.plan.teamMembers.filter(member => member.id !== memberId);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<{ id: string }> = {
+      data: { id: memberId },
+      message: 'Scenario team member deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting scenario team member:', error);
+    const apiError: ApiError = {
+      error: 'Failed to delete scenario team member',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/scenarios/:id/team-members/:memberId/holidays - Add a personal holiday in the scenario
+router.post('/:id/team-members/:memberId/holidays', async (req, res) => {
+  try {
+    const { id, memberId } = req.params;
+    const { startDate, endDate, description }: Omit<PersonalHolidayData, 'teamMemberId'> = req.body;
+
+    if (!startDate || !endDate) {
+      const apiError: ApiError = {
+        error: 'Missing required fields',
+        message: 'startDate and endDate are required'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const teamMember = loaded.plan.teamMembers.find(member => member.id === memberId);
+    if (!teamMember) {
+      const apiError: ApiError = {
+        error: 'Team member not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const holiday = {
+      id: randomUUID(),
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate).toISOString(),
+      description: description || null
+    };
+    teamMember.personalHolidays.push(holiday);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<typeof holiday & { teamMemberId: string }> = {
+      data: { ...holiday, teamMemberId: memberId },
+      message: 'Scenario personal holiday added successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error adding scenario personal holiday:', error);
+    const apiError: ApiError = {
+      error: 'Failed to add scenario personal holiday',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/scenarios/:id/team-members/:memberId/holidays/:holidayId - Remove a personal holiday in the scenario
+router.delete('/:id/team-members/:memberId/holidays/:holidayId', async (req, res) => {
+  try {
+    const { id, memberId, holidayId } = req.params;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const teamMember = loaded.plan.teamMembers.find(member => member.id === memberId);
+    if (!teamMember || !teamMember.personalHolidays.some(holiday => holiday.id === holidayId)) {
+      const apiError: ApiError = {
+        error: 'Personal holiday not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    teamMember.personalHolidays = teamMember.personalHolidays.filter(holiday => holiday.id !== holidayId);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<{ id: string }> = {
+      data: { id: holidayId },
+      message: 'Scenario personal holiday removed successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error removing scenario personal holiday:', error);
+    const apiError: ApiError = {
+      error: 'Failed to remove scenario personal holiday',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/scenarios/:id/holidays - Get the scenario's public holidays
+router.get('/:id/holidays', async (req, res) => {
+  try {
+    const loaded = await loadScenario(req.params.id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const response: ApiResponse<ScenarioPlan['publicHolidays']> = {
+      data: loaded.plan.publicHolidays
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching scenario public holidays:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch scenario public holidays',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/scenarios/:id/holidays - Add a public holiday to the scenario
+router.post('/:id/holidays', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, date, impactPercentage, teamId }: PublicHolidayData = req.body;
+
+    if (!name || !date || impactPercentage === undefined) {
+      const apiError: ApiError = {
+        error: 'Missing required fields',
+        message: 'name, date, and impactPercentage are required'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    if (impactPercentage < 0 || impactPercentage > 100) {
+      const apiError: ApiError = {
+        error: 'Invalid impact percentage',
+        message: 'Impact percentage must be between 0 and 100'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const holiday = {
+      id: randomUUID(),
+      name,
+      date: new Date(date).toISOString(),
+      impactPercentage,
+      teamId: teamId ?? loaded.scenario.teamId
+    };
+    loaded.plan.publicHolidays.push(holiday);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<typeof holiday> = {
+      data: holiday,
+      message: 'Scenario public holiday created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating scenario public holiday:', error);
+    const apiError: ApiError = {
+      error: 'Failed to create scenario public holiday',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// PUT /api/scenarios/:id/holidays/:holidayId - Update a public holiday in the scenario
+router.put('/:id/holidays/:holidayId', async (req, res) => {
+  try {
+    const { id, holidayId } = req.params;
+    const { name, date, impactPercentage }: Partial<PublicHolidayData> = req.body;
+
+    if (impactPercentage !== undefined && (impactPercentage < 0 || impactPercentage > 100)) {
+      const apiError: ApiError = {
+        error: 'Invalid impact percentage',
+        message: 'Impact percentage must be between 0 and 100'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const holiday = loaded.plan.publicHolidays.find(entry => entry.id === holidayId);
+    if (!holiday) {
+      const apiError: ApiError = {
+        error: 'Public holiday not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    if (name !== undefined) holiday.name = name;
+    if (date !== undefined) holiday.date = new Date(date).toISOString();
+    if (impactPercentage !== undefined) holiday.impactPercentage = impactPercentage;
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<typeof holiday> = {
+      data: holiday,
+      message: 'Scenario public holiday updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating scenario public holiday:', error);
+    const apiError: ApiError = {
+      error: 'Failed to update scenario public holiday',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/scenarios/:id/holidays/:holidayId - Remove a public holiday from the scenario
+router.delete('/:id/holidays/:holidayId', async (req, res) => {
+  try {
+    const { id, holidayId } = req.params;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    if (!loaded.plan.publicHolidays.some(holiday => holiday.id === holidayId)) {
+      const apiError: ApiError = {
+        error: 'Public holiday not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    loaded.plan.publicHolidays = loaded.plan.publicHolidays.filter(holiday => holiday.id !== holidayId);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<{ id: string }> = {
+      data: { id: holidayId },
+      message: 'Scenario public holiday deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting scenario public holiday:', error);
+    const apiError: ApiError = {
+      error: 'Failed to delete scenario public holiday',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/scenarios/:id/sprints - Get the scenario's sprints with their work items
+router.get('/:id/sprints', async (req, res) => {
+  try {
+    const loaded = await loadScenario(req.params.id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const response: ApiResponse<ScenarioPlan['sprints']> = {
+      data: loaded.plan.sprints
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching scenario sprints:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch scenario sprints',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/scenarios/:id/sprints - Add a sprint to the scenario
+router.post('/:id/sprints', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, startDate, endDate, plannedVelocity, actualVelocity, teamId }: SprintData = req.body;
+
+    if (!name || !startDate || !endDate || !plannedVelocity) {
+      const apiError: ApiError = {
+        error: 'Missing required fields',
+        message: 'name, startDate, endDate, and plannedVelocity are required'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const sprint = {
+      id: randomUUID(),
+      name,
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate).toISOString(),
+      plannedVelocity,
+      actualVelocity: actualVelocity ?? null,
+      teamId: teamId ?? loaded.scenario.teamId,
+      workItems: []
+    };
+    loaded.plan.sprints.push(sprint);
+    loaded.plan.sprints.sort((a, b) => a.startDate.localeCompare(b.startDate));
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<typeof sprint> = {
+      data: sprint,
+      message: 'Scenario sprint created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating scenario sprint:', error);
+    const apiError: ApiError = {
+      error: 'Failed to create scenario sprint',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// PUT /api/scenarios/:id/sprints/:sprintId - Update a sprint in the scenario
+router.put('/:id/sprints/:sprintId', async (req, res) => {
+  try {
+    const { id, sprintId } = req.params;
+    const { name, startDate, endDate, plannedVelocity, actualVelocity }: Partial<SprintData> = req.body;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const sprint = loaded.plan.sprints.find(entry => entry.id === sprintId);
+    if (!sprint) {
+      const apiError: ApiError = {
+        error: 'Sprint not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    if (name) sprint.name = name;
+    if (startDate) sprint.startDate = new Date(startDate).toISOString();
+    if (endDate) sprint.endDate = new Date(endDate).toISOString();
+    if (plannedVelocity !== undefined) sprint.plannedVelocity = plannedVelocity;
+    if (actualVelocity !== undefined) sprint.actualVelocity = actualVelocity;
+    loaded.plan.sprints.sort((a, b) => a.startDate.localeCompare(b.startDate));
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<typeof sprint> = {
+      data: sprint,
+      message: 'Scenario sprint updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating scenario sprint:', error);
+    const apiError: ApiError = {
+      error: 'Failed to update scenario sprint',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/scenarios/:id/sprints/:sprintId - Remove a sprint (and its assignments) from the scenario
+router.delete('/:id/sprints/:sprintId', async (req, res) => {
+  try {
+    const { id, sprintId } = req.params;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    if (!loaded.plan.sprints.some(sprint => sprint.id === sprintId)) {
+      const apiError: ApiError = {
+        error: 'Sprint not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    loaded.plan.sprints = loaded.plan.sprints.filter(sprint => sprint.id !== sprintId);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<{ id: string }> = {
+      data: { id: sprintId },
+      message: 'Scenario sprint deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting scenario sprint:', error);
+    const apiError: ApiError = {
+      error: 'Failed to delete scenario sprint',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/scenarios/:id/work-items/:workItemId/assign-sprint - Assign a work item to a scenario sprint
+router.post('/:id/work-items/:workItemId/assign-sprint', async (req, res) => {
+  try {
+    const { id, workItemId } = req.params;
+    const { sprintId } = req.body;
+
+    if (!sprintId) {
+      const apiError: ApiError = {
+        error: 'Missing sprint ID',
+        message: 'sprintId is required'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const [loaded, workItem] = await Promise.all([
+      loadScenario(id),
+      prisma.workItem.findFirst({ where: { id: workItemId, deletedAt: null } })
+    ]);
+    if (!loaded) return scenarioNotFound(res);
+
+    if (!workItem) {
+      const apiError: ApiError = {
+        error: 'Work item not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const sprint = loaded.plan.sprints.find(entry => entry.id === sprintId);
+    if (!sprint) {
+      const apiError: ApiError = {
+        error: 'Sprint not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    if (sprint.workItems.includes(workItemId)) {
+      const apiError: ApiError = {
+        error: 'Work item already assigned to this sprint'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    sprint.workItems.push(workItemId);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<{ sprintId: string; workItemId: string }> = {
+      data: { sprintId, workItemId },
+      message: 'Work item assigned to scenario sprint successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error assigning work item to scenario sprint:', error);
+    const apiError: ApiError = {
+      error: 'Failed to assign work item to scenario sprint',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/scenarios/:id/work-items/:workItemId/assign-sprint/:sprintId - Remove a work item from a scenario sprint
+router.delete('/:id/work-items/:workItemId/assign-sprint/:sprintId', async (req, res) => {
+  try {
+    const { id, workItemId, sprintId } = req.params;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const sprint = loaded.plan.sprints.find(entry => entry.id === sprintId);
+    if (!sprint || !sprint.workItems.includes(workItemId)) {
+      const apiError: ApiError = {
+        error: 'Assignment not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    sprint.workItems = sprint.workItems.filter(assignedId => assignedId !== workItemId);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<{ workItemId: string; sprintId: string }> = {
+      data: { workItemId, sprintId },
+      message: 'Work item removed from scenario sprint successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error removing work item from scenario sprint:', error);
+    const apiError: ApiError = {
+      error: 'Failed to remove work item from scenario sprint',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/scenarios/:id/work-items/:workItemId/exclude - Drop a work item (or a whole epic) from the scenario
+router.post('/:id/work-items/:workItemId/exclude', async (req, res) => {
+  try {
+    const { id, workItemId } = req.params;
+
+    const [loaded, workItem] = await Promise.all([
+      loadScenario(id),
+      prisma.workItem.findFirst({ where: { id: workItemId, deletedAt: null } })
+    ]);
+    if (!loaded) return scenarioNotFound(res);
+
+    if (!workItem) {
+      const apiError: ApiError = {
+        error: 'Work item not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    if (!loaded.plan.excludedWorkItemIds.includes(workItemId)) {
+      loaded.plan.excludedWorkItemIds.push(workItemId);
+      await saveScenarioPlan(id, loaded.plan);
+    }
+
+    const response: ApiResponse<{ excludedWorkItemIds: string[] }> = {
+      data: { excludedWorkItemIds: loaded.plan.excludedWorkItemIds },
+      message: workItem.isEpic ? 'Epic dropped from scenario' : 'Work item dropped from scenario'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error excluding work item from scenario:', error);
+    const apiError: ApiError = {
+      error: 'Failed to exclude work item from scenario',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/scenarios/:id/work-items/:workItemId/exclude - Bring a dropped work item back into the scenario
+router.delete('/:id/work-items/:workItemId/exclude', async (req, res) => {
+  try {
+    const { id, workItemId } = req.params;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    loaded.plan.excludedWorkItemIds = loaded.plan.excludedWorkItemIds.filter(excludedId => excludedId !== workItemId);
+    await saveScenarioPlan(id, loaded.plan);
+
+    const response: ApiResponse<{ excludedWorkItemIds: string[] }> = {
+      data: { excludedWorkItemIds: loaded.plan.excludedWorkItemIds },
+      message: 'Work item restored to scenario'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error restoring work item to scenario:', error);
+    const apiError: ApiError = {
+      error: 'Failed to restore work item to scenario',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/scenarios/:id/compare - Diff the scenario against the live plan
+router.get('/:id/compare', async (req, res) => {
+  try {
+    const loaded = await loadScenario(req.params.id);
+    if (!loaded) return scenarioNotFound(res);
+
+    const [livePlan, workItems] = await Promise.all([
+      forkLivePlan(loaded.scenario.teamId ?? undefined),
+      loadPlanWorkItems()
+    ]);
+
+    const comparison = comparePlans(
+      evaluatePlan(livePlan, workItems),
+      evaluatePlan(loaded.plan, workItems)
+    );
+
+    const response: ApiResponse<typeof comparison & { scenarioId: string; scenarioName: string }> = {
+      data: {
+        scenarioId: loaded.scenario.id,
+        scenarioName: loaded.scenario.name,
+        ...comparison
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error comparing scenario:', error);
+    const apiError: ApiError = {
+      error: 'Failed to compare scenario',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/scenarios/:id/promote - Make the scenario the live plan
+router.post('/:id/promote', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const loaded = await loadScenario(id);
+    if (!loaded) return scenarioNotFound(res);
+
+    console.log(`🚀 Promoting scenario "${loaded.scenario.name}" to the live plan...`);
+
+    const workItems = await loadPlanWorkItems();
+    const counts = await prisma.$transaction(async (tx) => {
+      const result = await promotePlan(tx, loaded.plan, workItems, loaded.scenario.createdAt, loaded.scenario.teamId ?? undefined);
+      await tx.scenario.update({
+        where: { id },
+        data: { promotedAt: new Date() }
+      });
+      await recordAudit(req, 'scenario-promote', { scenarioId: id, teamId: loaded.scenario.teamId }, result, tx);
+      return result;
+    });
+
+    console.log(`✅ Scenario "${loaded.scenario.name}" promoted:`, counts);
+
+    const response: ApiResponse<typeof counts> = {
+      data: counts,
+      message: 'Scenario promoted to live plan successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error promoting scenario:', error);
+    const apiError: ApiError = {
+      error: 'Failed to promote scenario',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+export default router;
@@ -0,0 +1,263 @@
+import express from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { requireRole } from '../lib/auth';
+import { recordAudit } from '../lib/audit';
+import {
+  countPlanRows,
+  exportSnapshot,
+  PlanSnapshot,
+  PlanSnapshotSchema,
+  restoreSnapshot,
+  SNAPSHOT_RESTORE_MODES,
+  SNAPSHOT_VERSION,
+  SnapshotRestoreMode
+} from '../lib/snapshot';
+import { ApiResponse, ApiError, ApiWarning } from '../types';
+
+const router = express.Router();
+
+// Large plans take longer than Prisma's default five-second interactive transaction
+const RESTORE_TRANSACTION_TIMEOUT = 2 * 60 * 1000;
+
+const RestoreSnapshotRequestSchema = z.object({
+  mode: z.enum(SNAPSHOT_RESTORE_MODES).default('empty'),
+  snapshot: PlanSnapshotSchema
+});
+
+// Backups are taken just before a reset, which leaves teams and sprint configuration in place, so they merge by default
+const RestoreBackupRequestSchema = z.object({
+  mode: z.enum(SNAPSHOT_RESTORE_MODES).default('merge')
+});
+
+// Fields listed for a backup; the snapshot itself is only sent when a single backup is downloaded
+const BACKUP_SELECT = {
+  id: true,
+  reason: true,
+  params: true,
+  actorId: true,
+  actorName: true,
+  createdAt: true
+} as const;
+
+// Helper function to restore a validated snapshot in one transaction and send the result
+async function sendRestore(
+  req: express.Request,
+  res: express.Response,
+  snapshot: PlanSnapshot,
+  mode: SnapshotRestoreMode,
+  auditParams: Record<string, unknown>
+) {
+  // The emptiness check runs in the restore transaction, so nothing can be added between the two
+  const { existing, result } = await prisma.$transaction(async (tx) => {
+    if (mode === 'empty') {
+      const existing = await countPlanRows(tx);
+      if (Object.values(existing).some(count => count > 0)) return { existing, result: null };
+    }
+
+    const restored = await restoreSnapshot(tx, snapshot, mode);
+    await recordAudit(req, 'snapshot-restore', { ...auditParams, mode, exportedAt: snapshot.exportedAt }, { ...restored.created }, tx);
+    return { existing: null, result: restored };
+  }, { timeout: RESTORE_TRANSACTION_TIMEOUT });
+
+  if (!result) {
+    const apiError: ApiError = {
+      error: 'Database not empty',
+      message: 'Reset the database first, or restore with mode "merge" to add the snapshot to the current plan',
+      details: existing
+    };
+    return res.status(409).json(apiError);
+  }
+
+  const warnings: ApiWarning[] = result.skipped.map(message => ({ type: 'link-not-restored', message }));
+
+  console.log(`📦 Restored snapshot from ${snapshot.exportedAt} (${mode})`, result.created);
+
+  const response: ApiResponse<typeof result> = {
+    data: result,
+    message: mode === 'merge' ? 'Snapshot merged successfully' : 'Snapshot restored successfully',
+    ...(warnings.length > 0 && { warnings })
+  };
+
+  res.json(response);
+}
+
+// GET /api/snapshot - Download the whole plan as one versioned JSON document
+router.get('/', async (req, res) => {
+  try {
+    const snapshot = await exportSnapshot();
+
+    res.attachment(`resource-planner-snapshot-${snapshot.exportedAt.slice(0, 10)}.json`);
+    res.json(snapshot);
+  } catch (error) {
+    console.error('Error exporting snapshot:', error);
+    const apiError: ApiError = {
+      error: 'Failed to export snapshot',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/snapshot/restore - Restore a snapshot into an empty database, or merge it into the current plan (admin)
+router.post('/restore', requireRole('admin'), async (req, res) => {
+  try {
+    const parsed = RestoreSnapshotRequestSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: `Send { mode: ${SNAPSHOT_RESTORE_MODES.join(' | ')}, snapshot } with a version ${SNAPSHOT_VERSION} document from GET /api/snapshot`,
+        details: parsed.error.issues
+      };
+      return res.status(400).json(apiError);
+    }
+    const { mode, snapshot } = parsed.data;
+
+    await sendRestore(req, res, snapshot, mode, {});
+  } catch (error) {
+    console.error('Error restoring snapshot:', error);
+    const apiError: ApiError = {
+      error: 'Failed to restore snapshot',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/snapshot/backups - Backups taken automatically before resets, newest first
+router.get('/backups', async (req, res) => {
+  try {
+    const backups = await prisma.snapshotBackup.findMany({
+      select: BACKUP_SELECT,
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    const response: ApiResponse<typeof backups> = {
+      data: backups
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching backups:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch backups',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/snapshot/backups/:id - Download a backup as a snapshot document
+router.get('/backups/:id', async (req, res) => {
+  try {
+    const backup = await prisma.snapshotBackup.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!backup) {
+      const apiError: ApiError = {
+        error: 'Backup not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    res.attachment(`resource-planner-backup-${backup.id}.json`);
+    res.json(backup.data);
+  } catch (error) {
+    console.error('Error fetching backup:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch backup',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/snapshot/backups/:id/restore - Restore a backup, merging it into the current plan unless mode is "empty" (admin)
+router.post('/backups/:id/restore', requireRole('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const parsed = RestoreBackupRequestSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: `mode must be one of ${SNAPSHOT_RESTORE_MODES.join(', ')}`,
+        details: parsed.error.issues
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const backup = await prisma.snapshotBackup.findUnique({
+      where: { id }
+    });
+
+    if (!backup) {
+      const apiError: ApiError = {
+        error: 'Backup not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    // Backups written by an older version of the document may no longer validate
+    const snapshot = PlanSnapshotSchema.safeParse(backup.data);
+    if (!snapshot.success) {
+      const apiError: ApiError = {
+        error: 'Backup cannot be restored',
+        message: `Backup is not a valid version ${SNAPSHOT_VERSION} snapshot`,
+        details: snapshot.error.issues
+      };
+      return res.status(422).json(apiError);
+    }
+
+    await sendRestore(req, res, snapshot.data, parsed.data.mode, { backupId: id, reason: backup.reason });
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    const apiError: ApiError = {
+      error: 'Failed to restore backup',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/snapshot/backups/:id - Delete a backup that is no longer needed (admin)
+router.delete('/backups/:id', requireRole('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingBackup = await prisma.snapshotBackup.findUnique({
+      where: { id },
+      select: BACKUP_SELECT
+    });
+
+    if (!existingBackup) {
+      const apiError: ApiError = {
+        error: 'Backup not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    await prisma.snapshotBackup.delete({
+      where: { id }
+    });
+
+    const response: ApiResponse<{ id: string }> = {
+      data: { id },
+      message: 'Backup deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting backup:', error);
+    const apiError: ApiError = {
+      error: 'Failed to delete backup',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+export default router;
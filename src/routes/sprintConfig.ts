@@ -1,17 +1,28 @@
 import express from 'express';
+import { z } from 'zod';
 import { prisma } from '../lib/prisma';
+import { buildSprintCalendar, CalendarSprint, configInForce, loadConfigVersions } from '../lib/sprintCalendar';
+import { checkTeam, getTeamFilter } from '../lib/teamScope';
+import { requireRole } from '../lib/auth';
+import { recordAudit } from '../lib/audit';
 import { SprintConfigData, ApiResponse, ApiError } from '../types';
 
 const router = express.Router();
 
-// GET /api/sprint-config - Get sprint configuration (returns first config or default)
+// GET /api/sprint-config - Get the configuration in force today, or on ?date= (returns default if none).
+// With ?teamId= the team's own configuration is used, falling back to the shared one.
 router.get('/', async (req, res) => {
   try {
-    const config = await prisma.sprintConfig.findFirst({
-      orderBy: {
-        createdAt: 'desc'
-      }
-    });
+    const date = typeof req.query.date === 'string' ? new Date(req.query.date) : new Date();
+    if (isNaN(date.getTime())) {
+      const apiError: ApiError = {
+        error: 'Invalid date',
+        message: 'date must be a valid date'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const config = configInForce(await loadConfigVersions(getTeamFilter(req)), date);
 
     if (!config) {
       // Return default configuration if none exists
@@ -21,6 +32,7 @@ router.get('/', async (req, res) => {
         sprintDurationDays: 14,
         defaultVelocity: 20,
         startingQuarterSprintNumber: 1,
+        effectiveFrom: new Date(),
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -47,10 +59,39 @@ router.get('/', async (req, res) => {
   }
 });
 
-// POST /api/sprint-config - Create or update sprint configuration
-router.post('/', async (req, res) => {
+// GET /api/sprint-config/history - Get every configuration version with the period it applies to
+router.get('/history', async (req, res) => {
+  try {
+    const versions = await loadConfigVersions(getTeamFilter(req));
+
+    const history = versions.map((version, index) => {
+      const next = versions[index + 1];
+      return {
+        ...version,
+        effectiveUntil: next ? new Date(next.effectiveFrom.getTime() - 24 * 60 * 60 * 1000) : null
+      };
+    });
+
+    const response: ApiResponse<typeof history> = {
+      data: history
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching sprint config history:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch sprint config history',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/sprint-config - Save a configuration version effective from a date, shared or for one team
+router.post('/', requireRole('admin'), async (req, res) => {
   try {
-    const { firstSprintStartDate, sprintDurationDays, defaultVelocity, startingQuarterSprintNumber }: SprintConfigData = req.body;
+    const { firstSprintStartDate, sprintDurationDays, defaultVelocity, startingQuarterSprintNumber, effectiveFrom }: SprintConfigData = req.body;
+    const teamId = req.body.teamId || getTeamFilter(req) || null;
 
     if (!firstSprintStartDate || !sprintDurationDays || !defaultVelocity || startingQuarterSprintNumber === undefined) {
       const apiError: ApiError = {
@@ -68,21 +109,46 @@ router.post('/', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
-    // Delete existing config and create new one (only keep latest)
-    await prisma.sprintConfig.deleteMany({});
+    if (effectiveFrom && isNaN(Date.parse(effectiveFrom))) {
+      const apiError: ApiError = {
+        error: 'Invalid values',
+        message: 'effectiveFrom must be a valid date'
+      };
+      return res.status(400).json(apiError);
+    }
 
-    const config = await prisma.sprintConfig.create({
-      data: {
-        firstSprintStartDate: new Date(firstSprintStartDate),
-        sprintDurationDays,
-        defaultVelocity,
-        startingQuarterSprintNumber
-      }
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
+    // Earlier versions are kept; a version for the same effective day is replaced. Versions are
+    // kept per team, so a team's first version does not look at the shared ones.
+    const versions = await prisma.sprintConfig.findMany({
+      where: { teamId },
+      orderBy: { effectiveFrom: 'asc' }
     });
+    const effectiveDate = new Date(effectiveFrom || (versions.length === 0 ? firstSprintStartDate : new Date().toISOString()));
+    effectiveDate.setUTCHours(0, 0, 0, 0);
+    const sameDay = versions.find(version => version.effectiveFrom.getTime() === effectiveDate.getTime());
+
+    const data = {
+      firstSprintStartDate: new Date(firstSprintStartDate),
+      sprintDurationDays,
+      defaultVelocity,
+      startingQuarterSprintNumber,
+      effectiveFrom: effectiveDate,
+      teamId
+    };
+
+    const config = sameDay
+      ? await prisma.sprintConfig.update({ where: { id: sameDay.id }, data })
+      : await prisma.sprintConfig.create({ data });
+    await recordAudit(req, 'sprint-config-save', { ...data, configId: config.id }, { sprintConfigs: 1 });
 
     const response: ApiResponse<typeof config> = {
       data: config,
-      message: 'Sprint configuration saved successfully'
+      message: `Sprint configuration saved, effective from ${effectiveDate.toISOString().slice(0, 10)}`
     };
 
     res.status(201).json(response);
@@ -96,4 +162,145 @@ router.post('/', async (req, res) => {
   }
 });
 
+// Schema for server-side sprint generation; exactly one of count or through is required
+const GenerateSprintsRequestSchema = z.object({
+  count: z.number().int().min(1).max(52).optional(),
+  teamId: z.string().optional(),
+  through: z.string().refine(value => !isNaN(Date.parse(value)), 'through must be a date').optional(),
+  dryRun: z.boolean().default(false)
+}).refine(body => (body.count === undefined) !== (body.through === undefined), {
+  message: 'Provide either count or through'
+});
+
+interface SkippedSprint {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  reason: 'exists' | 'overlaps';
+  existingSprintId: string;
+}
+
+// POST /api/sprint-config/generate - Create N sprints after the last existing one (or sprints through a date) from the configuration.
+// With a teamId the sprints are created for that team from its configuration.
+router.post('/generate', requireRole('admin'), async (req, res) => {
+  try {
+    const parsed = GenerateSprintsRequestSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: 'Provide either count (1-52) or through (a date), and optionally dryRun',
+        details: parsed.error.issues
+      };
+      return res.status(400).json(apiError);
+    }
+    const { count, through, dryRun } = parsed.data;
+    const teamId = parsed.data.teamId || getTeamFilter(req);
+
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
+    const versions = await loadConfigVersions(teamId);
+
+    if (versions.length === 0) {
+      const apiError: ApiError = {
+        error: 'Sprint configuration missing',
+        message: 'Save a sprint configuration before generating sprints'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const throughDate = through ? new Date(through) : null;
+
+    // Existing sprints are never modified, and archived ones still hold their name and dates, so slots
+    // matching or overlapping any of them are skipped
+    const existingSprints = await prisma.sprint.findMany({
+      where: teamId ? { teamId } : { teamId: null }
+    });
+    const findConflict = (sprint: CalendarSprint): SkippedSprint | null => {
+      const sameName = existingSprints.find(existing => existing.name === sprint.name);
+      const overlapping = existingSprints.find(existing =>
+        existing.startDate <= sprint.endDate && existing.endDate >= sprint.startDate
+      );
+      const conflict = sameName || overlapping;
+      if (!conflict) return null;
+
+      return {
+        name: sprint.name,
+        startDate: sprint.startDate,
+        endDate: sprint.endDate,
+        reason: sameName ? 'exists' : 'overlaps',
+        existingSprintId: conflict.id
+      };
+    };
+
+    // With count, the new sprints follow the last existing one; skipped slots do not count towards it
+    const lastEndDate = existingSprints.reduce<Date | null>(
+      (latest, existing) => (latest === null || existing.endDate > latest ? existing.endDate : latest),
+      null
+    );
+    const isCandidate = (sprint: CalendarSprint) =>
+      sprint.endDate >= today && (throughDate !== null || lastEndDate === null || sprint.startDate > lastEndDate);
+
+    // Walk the calendar until `count` sprints can be created, or past the through date
+    let creatable = 0;
+    const calendar = buildSprintCalendar(versions, sprint => {
+      if (throughDate) return sprint.startDate > throughDate;
+      if (!isCandidate(sprint) || findConflict(sprint)) return false;
+      if (creatable === count) return true;
+      creatable++;
+      return false;
+    }).filter(isCandidate);
+
+    const toCreate: CalendarSprint[] = [];
+    const skipped: SkippedSprint[] = [];
+    for (const sprint of calendar) {
+      const conflict = findConflict(sprint);
+      if (conflict) {
+        skipped.push(conflict);
+      } else {
+        toCreate.push(sprint);
+      }
+    }
+
+    const created = dryRun ? [] : await prisma.$transaction(
+      toCreate.map(sprint => prisma.sprint.create({
+        data: {
+          name: sprint.name,
+          startDate: sprint.startDate,
+          endDate: sprint.endDate,
+          plannedVelocity: sprint.plannedVelocity,
+          teamId
+        }
+      }))
+    );
+
+    console.log(`🗓️ Sprint generation${dryRun ? ' (dry run)' : ''}: ${toCreate.length} to create, ${skipped.length} skipped`);
+
+    const response: ApiResponse<{ dryRun: boolean; created: typeof created; planned: CalendarSprint[]; skipped: SkippedSprint[] }> = {
+      data: {
+        dryRun,
+        created,
+        planned: toCreate,
+        skipped
+      },
+      message: dryRun
+        ? `Dry run: ${toCreate.length} sprint(s) would be created, ${skipped.length} skipped`
+        : `Generated ${created.length} sprint(s), ${skipped.length} skipped`
+    };
+
+    res.status(created.length > 0 ? 201 : 200).json(response);
+  } catch (error) {
+    console.error('Error generating sprints:', error);
+    const apiError: ApiError = {
+      error: 'Failed to generate sprints',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -1,15 +1,26 @@
 import express from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
-import { SprintData, ApiResponse, ApiError, SprintResponse } from '../types';
+import { calculateSprintCapacity, loadCapacityInputs, SprintCapacity, startOfUtcDay } from '../lib/capacity';
+import { captureCommitmentSnapshot, CommitmentSnapshot, loadSprintCommitments, SprintCommitment } from '../lib/commitment';
+import { recordWorkItemChanges } from '../lib/workItemHistory';
+import { Burndown, buildBurndown, captureSprintSnapshot } from '../lib/burndown';
+import { analyseVelocity, loadVelocityHistory, VelocityAnalytics } from '../lib/velocity';
+import { planRegeneration, RegenerationNewSprint, RegenerationRemap, RegenerationUpdate } from '../lib/sprintRegeneration';
+import { checkTeam, getTeamFilter, holidayTeamScope, teamScope } from '../lib/teamScope';
+import { recordAudit } from '../lib/audit';
+import { SprintData, ApiResponse, ApiError, ApiWarning, SprintResponse } from '../types';
 
 const router = express.Router();
 
-// GET /api/sprints - Get all sprints with work items (excluding archived)
+// GET /api/sprints - Get all sprints (or a team's with ?teamId=) with work items (excluding archived)
 router.get('/', async (req, res) => {
   try {
     const sprints = await prisma.sprint.findMany({
       where: {
-        archived: false
+        archived: false,
+        ...teamScope(getTeamFilter(req))
       },
       include: {
         workItemAssignments: {
@@ -43,10 +54,233 @@ router.get('/', async (req, res) => {
   }
 });
 
+// GET /api/sprints/capacity - Get effective capacity for all sprints overlapping a date range
+router.get('/capacity', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    const rangeStart = typeof startDate === 'string' ? new Date(startDate) : null;
+    const rangeEnd = typeof endDate === 'string' ? new Date(endDate) : null;
+
+    if ((rangeStart && isNaN(rangeStart.getTime())) || (rangeEnd && isNaN(rangeEnd.getTime()))) {
+      const apiError: ApiError = {
+        error: 'Invalid date range',
+        message: 'startDate and endDate must be valid dates'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const teamId = getTeamFilter(req);
+    const sprints = await prisma.sprint.findMany({
+      where: {
+        archived: false,
+        ...teamScope(teamId),
+        ...(rangeStart && { endDate: { gte: rangeStart } }),
+        ...(rangeEnd && { startDate: { lte: rangeEnd } })
+      },
+      orderBy: {
+        startDate: 'asc'
+      }
+    });
+
+    const { teamMembers, publicHolidays } = await loadCapacityInputs(teamId);
+    const capacities = sprints.map(sprint => calculateSprintCapacity(sprint, teamMembers, publicHolidays));
+
+    const response: ApiResponse<SprintCapacity[]> = {
+      data: capacities
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error calculating sprint capacities:', error);
+    const apiError: ApiError = {
+      error: 'Failed to calculate sprint capacities',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/sprints/commitment - Committed vs. available capacity for all non-archived sprints
+router.get('/commitment', async (req, res) => {
+  try {
+    const commitments = await loadSprintCommitments({ archived: false, ...teamScope(getTeamFilter(req)) });
+
+    const response: ApiResponse<{
+      sprints: SprintCommitment[];
+      totals: { availableVelocity: number; committedPoints: number; overCommittedSprints: number };
+    }> = {
+      data: {
+        sprints: commitments,
+        totals: {
+          availableVelocity: Math.round(commitments.reduce((total, sprint) => total + sprint.availableVelocity, 0) * 100) / 100,
+          committedPoints: commitments.reduce((total, sprint) => total + sprint.committedPoints, 0),
+          overCommittedSprints: commitments.filter(sprint => sprint.overCommitted).length
+        }
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error building sprint commitment report:', error);
+    const apiError: ApiError = {
+      error: 'Failed to build sprint commitment report',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/sprints/velocity - Rolling velocity averages, spread and trend over finished sprints
+router.get('/velocity', async (req, res) => {
+  try {
+    const analytics = analyseVelocity(await loadVelocityHistory(getTeamFilter(req)));
+
+    const response: ApiResponse<VelocityAnalytics> = {
+      data: analytics
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error analysing velocity:', error);
+    const apiError: ApiError = {
+      error: 'Failed to analyse velocity',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/sprints/:id/capacity - Get effective capacity for a single sprint
+router.get('/:id/capacity', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const sprint = await prisma.sprint.findUnique({
+      where: { id }
+    });
+
+    if (!sprint) {
+      const apiError: ApiError = {
+        error: 'Sprint not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const { teamMembers, publicHolidays } = await loadCapacityInputs();
+
+    const response: ApiResponse<SprintCapacity> = {
+      data: calculateSprintCapacity(sprint, teamMembers, publicHolidays)
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error calculating sprint capacity:', error);
+    const apiError: ApiError = {
+      error: 'Failed to calculate sprint capacity',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/sprints/:id/burndown - Daily remaining, completed and scope points with the ideal line
+router.get('/:id/burndown', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingSprint = await prisma.sprint.findUnique({
+      where: { id }
+    });
+
+    if (!existingSprint) {
+      const apiError: ApiError = {
+        error: 'Sprint not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    // Record today's state first so the series ends with an exact data point
+    const now = new Date();
+    const today = startOfUtcDay(now);
+    const running = startOfUtcDay(existingSprint.startDate) <= today && startOfUtcDay(existingSprint.endDate) >= today;
+    if (running && existingSprint.state !== 'closed' && !existingSprint.archived) {
+      await captureSprintSnapshot(id, now);
+    }
+
+    const [assignments, snapshots, publicHolidays] = await Promise.all([
+      prisma.sprintWorkItem.findMany({
+        where: { sprintId: id },
+        include: {
+          workItem: {
+            include: {
+              events: {
+                where: { field: 'status' },
+                orderBy: { createdAt: 'asc' }
+              }
+            }
+          }
+        }
+      }),
+      prisma.sprintSnapshot.findMany({
+        where: { sprintId: id },
+        orderBy: { date: 'asc' }
+      }),
+      prisma.publicHoliday.findMany({
+        where: {
+          ...holidayTeamScope(existingSprint.teamId ?? undefined),
+          date: {
+            gte: existingSprint.startDate,
+            lte: existingSprint.endDate
+          }
+        }
+      })
+    ]);
+
+    const snapshot = existingSprint.commitmentSnapshot as unknown as CommitmentSnapshot | null;
+
+    const burndown = buildBurndown(
+      {
+        id: existingSprint.id,
+        name: existingSprint.name,
+        startDate: existingSprint.startDate,
+        endDate: existingSprint.endDate,
+        committedPoints: snapshot ? snapshot.committedPoints : null
+      },
+      assignments
+        .filter(assignment => !assignment.workItem.isEpic)
+        .map(({ workItem, assignedAt }) => ({
+          workItemId: workItem.id,
+          title: workItem.title,
+          storyPoints: workItem.estimateStoryPoints,
+          assignedAt,
+          status: workItem.status,
+          statusEvents: workItem.events
+        })),
+      snapshots,
+      publicHolidays.map(holiday => holiday.date),
+      now
+    );
+
+    const response: ApiResponse<Burndown> = {
+      data: burndown
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error building sprint burndown:', error);
+    const apiError: ApiError = {
+      error: 'Failed to build sprint burndown',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
 // POST /api/sprints - Create a new sprint
 router.post('/', async (req, res) => {
   try {
-    const { name, startDate, endDate, plannedVelocity, actualVelocity }: SprintData = req.body;
+    const { name, startDate, endDate, plannedVelocity, actualVelocity, teamId }: SprintData = req.body;
 
     if (!name || !startDate || !endDate || !plannedVelocity) {
       const apiError: ApiError = {
@@ -56,13 +290,19 @@ router.post('/', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
     const sprint = await prisma.sprint.create({
       data: {
         name,
         startDate: new Date(startDate),
         endDate: new Date(endDate),
         plannedVelocity,
-        ...(actualVelocity !== undefined && { actualVelocity })
+        ...(actualVelocity !== undefined && { actualVelocity }),
+        teamId: teamId || null
       }
     });
 
@@ -86,7 +326,7 @@ router.post('/', async (req, res) => {
 router.put('/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, startDate, endDate, plannedVelocity, actualVelocity }: Partial<SprintData> = req.body;
+    const { name, startDate, endDate, plannedVelocity, actualVelocity, teamId }: Partial<SprintData> = req.body;
 
     const existingSprint = await prisma.sprint.findUnique({
       where: { id }
@@ -99,6 +339,20 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json(apiError);
     }
 
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
+    // Moving a started sprint would give the target team a second active sprint, or rewrite its history
+    if (teamId !== undefined && (teamId || null) !== existingSprint.teamId && existingSprint.state !== 'planned') {
+      const apiError: ApiError = {
+        error: 'Invalid sprint state',
+        message: `Only planned sprints can move to another team; "${existingSprint.name}" is ${existingSprint.state}`
+      };
+      return res.status(409).json(apiError);
+    }
+
     const sprint = await prisma.sprint.update({
       where: { id },
       data: {
@@ -106,7 +360,8 @@ router.put('/:id', async (req, res) => {
         ...(startDate && { startDate: new Date(startDate) }),
         ...(endDate && { endDate: new Date(endDate) }),
         ...(plannedVelocity !== undefined && { plannedVelocity }),
-        ...(actualVelocity !== undefined && { actualVelocity })
+        ...(actualVelocity !== undefined && { actualVelocity }),
+        ...(teamId !== undefined && { teamId: teamId || null })
       }
     });
 
@@ -126,17 +381,342 @@ router.put('/:id', async (req, res) => {
   }
 });
 
+// GET /api/sprints/active - Get the currently active sprint, of a team with ?teamId= (null when none is running)
+router.get('/active', async (req, res) => {
+  try {
+    const sprint = await prisma.sprint.findFirst({
+      where: {
+        archived: false,
+        state: 'active',
+        ...teamScope(getTeamFilter(req))
+      },
+      include: {
+        workItemAssignments: true
+      }
+    });
+
+    const response: ApiResponse<SprintResponse | null> = {
+      data: sprint && {
+        ...sprint,
+        workItems: sprint.workItemAssignments.map(assignment => assignment.workItemId)
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching active sprint:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch active sprint',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/sprints/:id/start - Start a planned sprint and freeze its commitment
+router.post('/:id/start', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingSprint = await prisma.sprint.findUnique({
+      where: { id }
+    });
+
+    if (!existingSprint || existingSprint.archived) {
+      const apiError: ApiError = {
+        error: 'Sprint not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    if (existingSprint.state !== 'planned') {
+      const apiError: ApiError = {
+        error: 'Invalid sprint state',
+        message: `Only planned sprints can be started; "${existingSprint.name}" is ${existingSprint.state}`
+      };
+      return res.status(409).json(apiError);
+    }
+
+    const snapshot = await captureCommitmentSnapshot(id);
+
+    // Each team runs one sprint at a time. The check and the update share a serializable transaction,
+    // so of two starts racing for the same team one fails instead of both going through.
+    const started = await prisma.$transaction(async (tx) => {
+      const activeSprint = await tx.sprint.findFirst({
+        where: {
+          archived: false,
+          state: 'active',
+          teamId: existingSprint.teamId
+        }
+      });
+      if (activeSprint) return { activeSprint, sprint: null };
+
+      const sprint = await tx.sprint.update({
+        where: { id, state: 'planned' },
+        data: {
+          state: 'active',
+          startedAt: new Date(),
+          commitmentSnapshot: snapshot as unknown as Prisma.InputJsonValue
+        }
+      });
+      return { activeSprint: null, sprint };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (started.activeSprint) {
+      const apiError: ApiError = {
+        error: 'Another sprint is active',
+        message: `Close "${started.activeSprint.name}" before starting a new sprint`,
+        details: { activeSprintId: started.activeSprint.id }
+      };
+      return res.status(409).json(apiError);
+    }
+    const sprint = started.sprint;
+
+    const response: ApiResponse<typeof sprint> = {
+      data: sprint,
+      message: `Sprint started with ${snapshot.committedPoints} committed points`
+    };
+
+    res.json(response);
+  } catch (error) {
+    // P2034: a concurrent start won the serializable transaction; P2025: this sprint was started meanwhile
+    if (error instanceof Prisma.PrismaClientKnownRequestError && (error.code === 'P2034' || error.code === 'P2025')) {
+      const apiError: ApiError = {
+        error: 'Sprint start conflict',
+        message: 'Another sprint start for this team went through at the same time; reload and try again'
+      };
+      return res.status(409).json(apiError);
+    }
+
+    console.error('Error starting sprint:', error);
+    const apiError: ApiError = {
+      error: 'Failed to start sprint',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// Schema for closing a sprint
+const CloseSprintRequestSchema = z.object({
+  completedWorkItemIds: z.array(z.string()).default([]), // Items finished in the sprint but not yet marked Completed
+  targetSprintId: z.string().optional(), // Defaults to the next open sprint
+  dryRun: z.boolean().default(false)
+});
+
+interface SprintCloseItem {
+  id: string;
+  title: string;
+  status: string;
+  storyPoints: number;
+}
+
+interface SprintCloseResult {
+  sprintId: string;
+  dryRun: boolean;
+  targetSprint: { id: string; name: string } | null;
+  completed: SprintCloseItem[];
+  carriedOver: SprintCloseItem[];
+  committedPoints: number | null; // From the snapshot taken when the sprint started
+  actualVelocity: number;
+  carriedOverPoints: number;
+}
+
+// POST /api/sprints/:id/close - Close a sprint, carrying unfinished work into the next (or a chosen) sprint
+router.post('/:id/close', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const parsed = CloseSprintRequestSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: 'completedWorkItemIds must be an array of IDs, targetSprintId a string and dryRun a boolean',
+        details: parsed.error.issues
+      };
+      return res.status(400).json(apiError);
+    }
+    const { completedWorkItemIds, targetSprintId, dryRun } = parsed.data;
+
+    const sprint = await prisma.sprint.findUnique({
+      where: { id },
+      include: {
+        workItemAssignments: {
+          include: {
+            workItem: true
+          }
+        }
+      }
+    });
+
+    if (!sprint || sprint.archived) {
+      const apiError: ApiError = {
+        error: 'Sprint not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    if (sprint.state !== 'active') {
+      const apiError: ApiError = {
+        error: 'Invalid sprint state',
+        message: `Only active sprints can be closed; "${sprint.name}" is ${sprint.state}`
+      };
+      return res.status(409).json(apiError);
+    }
+
+    // Epics are containers and stay where they are
+    const workItems = sprint.workItemAssignments
+      .map(assignment => assignment.workItem)
+      .filter(workItem => !workItem.isEpic);
+
+    const unknownIds = completedWorkItemIds.filter(workItemId => !workItems.some(workItem => workItem.id === workItemId));
+    if (unknownIds.length > 0) {
+      const apiError: ApiError = {
+        error: 'Invalid completedWorkItemIds',
+        message: 'Every completed work item must be a non-epic item assigned to this sprint',
+        details: { workItemIds: unknownIds }
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const toCloseItem = (workItem: typeof workItems[number]): SprintCloseItem => ({
+      id: workItem.id,
+      title: workItem.title,
+      status: completedWorkItemIds.includes(workItem.id) ? 'Completed' : workItem.status,
+      storyPoints: workItem.estimateStoryPoints
+    });
+    const completed = workItems.map(toCloseItem).filter(item => item.status === 'Completed');
+    const carriedOver = workItems.map(toCloseItem).filter(item => item.status !== 'Completed');
+
+    // Unfinished work stays with the sprint's team
+    const targetSprint = targetSprintId
+      ? await prisma.sprint.findFirst({
+        where: { id: targetSprintId, archived: false, state: 'planned', teamId: sprint.teamId }
+      })
+      : await prisma.sprint.findFirst({
+        where: { archived: false, state: 'planned', teamId: sprint.teamId, startDate: { gt: sprint.startDate } },
+        orderBy: { startDate: 'asc' }
+      });
+
+    if (targetSprintId && (!targetSprint || targetSprint.id === id)) {
+      const apiError: ApiError = {
+        error: 'Invalid target sprint',
+        message: 'targetSprintId must be a planned, non-archived sprint of the same team'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    if (!targetSprint && carriedOver.length > 0) {
+      const apiError: ApiError = {
+        error: 'No sprint to carry over into',
+        message: `${carriedOver.length} unfinished work item(s) need a later open sprint or a targetSprintId`
+      };
+      return res.status(409).json(apiError);
+    }
+
+    const actualVelocity = completed.reduce((total, item) => total + item.storyPoints, 0);
+    const carriedOverPoints = carriedOver.reduce((total, item) => total + item.storyPoints, 0);
+
+    if (!dryRun) {
+      await prisma.$transaction(async (tx) => {
+        if (completedWorkItemIds.length > 0) {
+          await tx.workItem.updateMany({
+            where: { id: { in: completedWorkItemIds } },
+            data: { status: 'Completed' }
+          });
+          await recordWorkItemChanges(tx, workItems
+            .filter(workItem => completedWorkItemIds.includes(workItem.id))
+            .map(workItem => ({ workItemId: workItem.id, field: 'status', oldValue: workItem.status, newValue: 'Completed' })), 'manual');
+        }
+
+        if (targetSprint && carriedOver.length > 0) {
+          await tx.sprintWorkItem.deleteMany({
+            where: {
+              sprintId: id,
+              workItemId: { in: carriedOver.map(item => item.id) }
+            }
+          });
+          await tx.sprintWorkItem.createMany({
+            data: carriedOver.map(item => ({ sprintId: targetSprint.id, workItemId: item.id })),
+            skipDuplicates: true
+          });
+          await recordWorkItemChanges(tx, carriedOver.map(item => ({
+            workItemId: item.id,
+            field: 'sprint',
+            oldValue: id,
+            newValue: targetSprint.id
+          })), 'manual');
+        }
+
+        await tx.sprint.update({
+          where: { id },
+          data: {
+            state: 'closed',
+            closedAt: new Date(),
+            actualVelocity,
+            carriedOverPoints
+          }
+        });
+      });
+    }
+
+    const response: ApiResponse<SprintCloseResult> = {
+      data: {
+        sprintId: id,
+        dryRun,
+        targetSprint: targetSprint && { id: targetSprint.id, name: targetSprint.name },
+        completed,
+        carriedOver,
+        committedPoints: sprint.commitmentSnapshot
+          ? (sprint.commitmentSnapshot as unknown as CommitmentSnapshot).committedPoints
+          : null,
+        actualVelocity,
+        carriedOverPoints
+      },
+      message: dryRun
+        ? `Dry run: ${carriedOver.length} work item(s) (${carriedOverPoints} points) would be carried over`
+        : `Sprint closed; ${carriedOver.length} work item(s) (${carriedOverPoints} points) carried over`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error closing sprint:', error);
+    const apiError: ApiError = {
+      error: 'Failed to close sprint',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+interface SprintRegenerationDiff {
+  created: RegenerationNewSprint[];
+  updated: RegenerationUpdate[];
+  removed: { sprintId: string; name: string; assignmentCount: number }[];
+  skipped: { name: string; existingSprintId: string }[]; // Same name as an active or closed sprint
+  assignmentsRemapped: Omit<RegenerationRemap, 'toIndex' | 'assignedAt'>[];
+}
+
 // Track active regeneration operations to prevent race conditions  
 let regenerationInProgress = false;
 let lastRegenerationTime = 0;
 const REGENERATION_COOLDOWN = 5000; // 5 second cooldown between regenerations
 
-// POST /api/sprints/batch - Batch update/create sprints
+// POST /api/sprints/batch - Batch update/create sprints, for one team when a teamId is given
 router.post('/batch', async (req, res) => {
-  const { sprints, isRegeneration }: { sprints: SprintData[], isRegeneration?: boolean } = req.body;
+  const { sprints, isRegeneration, autoPlannedVelocity, preview }: {
+    sprints: SprintData[],
+    isRegeneration?: boolean,
+    autoPlannedVelocity?: boolean, // Derive plannedVelocity from the recent average velocity
+    preview?: boolean // With isRegeneration, return the diff without applying it
+  } = req.body;
+  const teamId: string | null = req.body.teamId || getTeamFilter(req) || null;
+  // Only sprints of the same team (or team-less ones) are matched, regenerated or removed
+  const teamSprints = { teamId };
+  const lockRegeneration = isRegeneration && !preview;
 
   // Prevent multiple regeneration operations running simultaneously or too quickly
-  if (isRegeneration) {
+  if (lockRegeneration) {
     const now = Date.now();
     
     if (regenerationInProgress) {
@@ -163,7 +743,7 @@ router.post('/batch', async (req, res) => {
   
   try {
     // Set regeneration lock
-    if (isRegeneration) {
+    if (lockRegeneration) {
       regenerationInProgress = true;
       console.log('🔒 Starting regeneration process...');
     }
@@ -176,126 +756,290 @@ router.post('/batch', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
     console.log(`📡 Batch sprint operation: processing ${sprints.length} sprints (regeneration: ${isRegeneration})`);
 
-    // Use transaction to ensure all operations succeed or fail together
-    const results = await prisma.$transaction(async (tx) => {
-      // If this is a regeneration operation, clear ALL existing non-archived sprints
-      if (isRegeneration) {
-        console.log(`🗑️ REGENERATION: Clearing ALL existing sprints`);
-        
-        const deletedResult = await tx.sprint.deleteMany({
+    // Replace plannedVelocity with the last three sprints' average, scaled by each sprint's holiday-adjusted capacity
+    let sprintsToSave = sprints;
+    if (autoPlannedVelocity) {
+      const [{ rollingAverage3 }, { teamMembers, publicHolidays }] = await Promise.all([
+        loadVelocityHistory(teamId ?? undefined).then(analyseVelocity),
+        loadCapacityInputs(teamId ?? undefined)
+      ]);
+
+      if (rollingAverage3 === null) {
+        console.warn('⚠️ No velocity history yet, keeping the supplied plannedVelocity values');
+      } else {
+        sprintsToSave = sprints.map((sprintData, index) => {
+          if (!sprintData.startDate || !sprintData.endDate) return sprintData;
+          const { availableVelocity } = calculateSprintCapacity({
+            id: `batch-${index}`,
+            name: sprintData.name,
+            startDate: new Date(sprintData.startDate),
+            endDate: new Date(sprintData.endDate),
+            plannedVelocity: rollingAverage3,
+            teamId
+          }, teamMembers, publicHolidays);
+          return { ...sprintData, plannedVelocity: Math.max(1, Math.round(availableVelocity)) };
+        });
+        console.log(`📈 Planned velocity derived from a recent average of ${rollingAverage3} points`);
+      }
+    }
+
+    if (isRegeneration) {
+      const invalidSprint = sprintsToSave.find(sprintData =>
+        !sprintData.name || !sprintData.startDate || !sprintData.endDate || !sprintData.plannedVelocity
+      );
+      if (invalidSprint) {
+        const apiError: ApiError = {
+          error: 'Missing required fields',
+          message: `Missing required fields for sprint: ${invalidSprint.name || 'unnamed'}`
+        };
+        return res.status(400).json(apiError);
+      }
+
+      const existingSprints = await prisma.sprint.findMany({
+        where: {
+          archived: false,
+          ...teamSprints
+        },
+        include: {
+          workItemAssignments: true
+        },
+        orderBy: {
+          startDate: 'asc'
+        }
+      });
+
+      // Active and closed sprints are kept as they are; requested sprints with the same name are skipped
+      const keptSprints = existingSprints.filter(sprint => sprint.state !== 'planned');
+      const skipped = sprintsToSave
+        .filter(sprintData => keptSprints.some(sprint => sprint.name === sprintData.name))
+        .map(sprintData => ({
+          name: sprintData.name,
+          existingSprintId: keptSprints.find(sprint => sprint.name === sprintData.name)!.id
+        }));
+      const requestedSprints = sprintsToSave
+        .filter(sprintData => !keptSprints.some(sprint => sprint.name === sprintData.name))
+        .map(sprintData => ({
+          name: sprintData.name,
+          startDate: new Date(sprintData.startDate),
+          endDate: new Date(sprintData.endDate),
+          plannedVelocity: sprintData.plannedVelocity,
+          ...(sprintData.actualVelocity !== undefined && { actualVelocity: sprintData.actualVelocity })
+        }));
+
+      const plan = planRegeneration(
+        existingSprints
+          .filter(sprint => sprint.state === 'planned')
+          .map(sprint => ({
+            id: sprint.id,
+            name: sprint.name,
+            startDate: sprint.startDate,
+            endDate: sprint.endDate,
+            plannedVelocity: sprint.plannedVelocity,
+            actualVelocity: sprint.actualVelocity,
+            assignments: sprint.workItemAssignments
+          })),
+        requestedSprints
+      );
+
+      const diff: SprintRegenerationDiff = {
+        created: plan.created.map(({ sprint }) => sprint),
+        updated: plan.updated.map(({ index, ...update }) => update),
+        removed: plan.removed,
+        skipped,
+        assignmentsRemapped: plan.assignmentsRemapped.map(({ toIndex, assignedAt, ...remap }) => remap)
+      };
+      const summary = `${diff.created.length} created, ${diff.updated.length} updated, ${diff.removed.length} removed, ` +
+        `${diff.assignmentsRemapped.length} assignments remapped`;
+
+      if (preview) {
+        const response: ApiResponse<{ preview: boolean; diff: SprintRegenerationDiff }> = {
+          data: { preview: true, diff },
+          message: `Regeneration preview: ${summary}`
+        };
+        return res.json(response);
+      }
+
+      console.log(`🔁 REGENERATION: ${summary}`);
+
+      const regenerated = await prisma.$transaction(async (tx) => {
+        const sprintIds: string[] = new Array(requestedSprints.length);
+
+        // Matched sprints are updated in place, so their own assignments stay put
+        for (const update of plan.updated) {
+          const sprint = await tx.sprint.update({
+            where: { id: update.sprintId },
+            data: update.sprint
+          });
+          sprintIds[update.index] = sprint.id;
+        }
+
+        for (const { index, sprint: sprintData } of plan.created) {
+          console.log(`➕ Creating new sprint: ${sprintData.name}`);
+          const sprint = await tx.sprint.create({
+            data: { ...sprintData, teamId }
+          });
+          sprintIds[index] = sprint.id;
+        }
+
+        // Copy assignments off removed sprints before the cascade deletes them
+        if (plan.assignmentsRemapped.length > 0) {
+          await tx.sprintWorkItem.createMany({
+            data: plan.assignmentsRemapped.map(remap => ({
+              sprintId: sprintIds[remap.toIndex],
+              workItemId: remap.workItemId,
+              assignedAt: remap.assignedAt
+            })),
+            skipDuplicates: true
+          });
+          await recordWorkItemChanges(tx, plan.assignmentsRemapped.map(remap => ({
+            workItemId: remap.workItemId,
+            field: 'sprint',
+            oldValue: remap.fromSprintId,
+            newValue: sprintIds[remap.toIndex]
+          })), 'manual');
+        }
+
+        if (plan.removed.length > 0) {
+          await tx.sprint.deleteMany({
+            where: {
+              id: { in: plan.removed.map(sprint => sprint.sprintId) }
+            }
+          });
+        }
+
+        await recordAudit(req, 'sprint-regeneration', {
+          teamId,
+          sprintNames: requestedSprints.map(sprint => sprint.name),
+          autoPlannedVelocity: Boolean(autoPlannedVelocity)
+        }, {
+          sprintsCreated: plan.created.length,
+          sprintsUpdated: plan.updated.length,
+          sprintsRemoved: plan.removed.length,
+          assignmentsRemapped: plan.assignmentsRemapped.length
+        }, tx);
+
+        return tx.sprint.findMany({
           where: {
-            archived: false
+            id: { in: sprintIds }
+          },
+          orderBy: {
+            startDate: 'asc'
           }
         });
-        
-        console.log(`✅ Deleted ${deletedResult.count} existing sprints during regeneration`);
-      }
+      });
+
+      const response: ApiResponse<{ sprints: typeof regenerated; diff: SprintRegenerationDiff }> = {
+        data: { sprints: regenerated, diff },
+        message: `Regeneration completed: ${summary}`
+      };
 
+      return res.json(response);
+    }
+
+    // Use transaction to ensure all operations succeed or fail together
+    const skipped: ApiWarning[] = [];
+    const results = await prisma.$transaction(async (tx) => {
       const updatedSprints = [];
+      skipped.length = 0;
 
-      for (const sprintData of sprints) {
+      for (const sprintData of sprintsToSave) {
         const { name, startDate, endDate, plannedVelocity, actualVelocity } = sprintData;
 
         if (!name || !startDate || !endDate || !plannedVelocity) {
           throw new Error(`Missing required fields for sprint: ${name || 'unnamed'}`);
         }
 
-        // For regeneration, always create new sprints since we cleared existing ones
-        if (isRegeneration) {
-          // Extra safety: Check if sprint with this name already exists to prevent duplicates
-          const existingDuplicate = await tx.sprint.findFirst({
-            where: { name, archived: false }
-          });
-          
-          if (existingDuplicate) {
-            console.warn(`⚠️ DUPLICATE PREVENTION: Sprint "${name}" already exists, skipping creation`);
-            updatedSprints.push(existingDuplicate);
-          } else {
-            console.log(`➕ Creating new sprint: ${name}`);
-            const sprint = await tx.sprint.create({
-              data: {
-                name,
-                startDate: new Date(startDate),
-                endDate: new Date(endDate),
-                plannedVelocity,
-                ...(actualVelocity !== undefined && { actualVelocity })
-              }
-            });
-            updatedSprints.push(sprint);
+        // For non-regeneration operations, check for existing sprints by name first (exact match)
+        let existingSprint = await tx.sprint.findFirst({
+          where: {
+            name,
+            archived: false,
+            ...teamSprints
           }
-        } else {
-          // For non-regeneration operations, check for existing sprints by name first (exact match)
-          let existingSprint = await tx.sprint.findFirst({
+        });
+
+        // If no exact name match, check by name + dates for precision
+        if (!existingSprint) {
+          existingSprint = await tx.sprint.findFirst({
             where: {
               name,
-              archived: false
+              startDate: new Date(startDate),
+              endDate: new Date(endDate),
+              archived: false,
+              ...teamSprints
             }
           });
+        }
 
-          // If no exact name match, check by name + dates for precision
-          if (!existingSprint) {
-            existingSprint = await tx.sprint.findFirst({
-              where: {
-                name,
-                startDate: new Date(startDate),
-                endDate: new Date(endDate),
-                archived: false
-              }
-            });
-          }
+        // If still no match, check for potential duplicates with similar names
+        if (!existingSprint) {
+          const similarSprints = await tx.sprint.findMany({
+            where: {
+              name: {
+                contains: name
+              },
+              archived: false,
+              ...teamSprints
+            }
+          });
 
-          // If still no match, check for potential duplicates with similar names
-          if (!existingSprint) {
-            const similarSprints = await tx.sprint.findMany({
-              where: {
-                name: {
-                  contains: name
-                },
-                archived: false
-              }
-            });
-
-            if (similarSprints.length > 0) {
-              console.warn(`⚠️ Found ${similarSprints.length} similar sprints for "${name}":`, 
-                similarSprints.map(s => `${s.name} (ID: ${s.id})`));
-              // Use exact match if available, otherwise skip to prevent duplicates
-              existingSprint = similarSprints.find(s => s.name === name) || null;
-              if (!existingSprint && similarSprints.length > 0) {
-                console.log(`🚫 Skipping creation of "${name}" to prevent duplicates. Use exact names or archive duplicates first.`);
-                continue; // Skip this sprint to prevent duplicates
-              }
+          if (similarSprints.length > 0) {
+            console.warn(`⚠️ Found ${similarSprints.length} similar sprints for "${name}":`, 
+              similarSprints.map(s => `${s.name} (ID: ${s.id})`));
+            // Use exact match if available, otherwise skip to prevent duplicates
+            existingSprint = similarSprints.find(s => s.name === name) || null;
+            if (!existingSprint && similarSprints.length > 0) {
+              console.log(`🚫 Skipping creation of "${name}" to prevent duplicates. Use exact names or archive duplicates first.`);
+              continue; // Skip this sprint to prevent duplicates
             }
           }
+        }
 
-          let sprint;
-          if (existingSprint) {
-            // Update existing sprint
-            console.log(`🔄 Updating existing sprint: ${name}`);
-            sprint = await tx.sprint.update({
-              where: { id: existingSprint.id },
-              data: {
-                plannedVelocity,
-                ...(actualVelocity !== undefined && { actualVelocity })
-              }
-            });
-          } else {
-            // Create new sprint
-            console.log(`➕ Creating new sprint: ${name}`);
-            sprint = await tx.sprint.create({
-              data: {
-                name,
-                startDate: new Date(startDate),
-                endDate: new Date(endDate),
-                plannedVelocity,
-                ...(actualVelocity !== undefined && { actualVelocity })
-              }
-            });
-          }
+        // Started sprints keep the velocity they were committed with
+        if (existingSprint && existingSprint.state !== 'planned') {
+          console.log(`⏭️ Skipping ${existingSprint.state} sprint: ${name}`);
+          skipped.push({
+            type: 'sprint-not-planned',
+            message: `"${name}" is ${existingSprint.state} and was left unchanged`,
+            details: { sprintId: existingSprint.id, state: existingSprint.state }
+          });
+          continue;
+        }
 
-          updatedSprints.push(sprint);
+        let sprint;
+        if (existingSprint) {
+          // Update existing sprint
+          console.log(`🔄 Updating existing sprint: ${name}`);
+          sprint = await tx.sprint.update({
+            where: { id: existingSprint.id },
+            data: {
+              plannedVelocity,
+              ...(actualVelocity !== undefined && { actualVelocity })
+            }
+          });
+        } else {
+          // Create new sprint
+          console.log(`➕ Creating new sprint: ${name}`);
+          sprint = await tx.sprint.create({
+            data: {
+              name,
+              startDate: new Date(startDate),
+              endDate: new Date(endDate),
+              plannedVelocity,
+              ...(actualVelocity !== undefined && { actualVelocity }),
+              teamId
+            }
+          });
         }
+
+        updatedSprints.push(sprint);
       }
 
       return updatedSprints;
@@ -303,7 +1047,8 @@ router.post('/batch', async (req, res) => {
 
     const response: ApiResponse<typeof results> = {
       data: results,
-      message: `Batch operation completed: ${results.length} sprints processed`
+      message: `Batch operation completed: ${results.length} sprints processed`,
+      ...(skipped.length > 0 && { warnings: skipped })
     };
 
     res.json(response);
@@ -316,7 +1061,7 @@ router.post('/batch', async (req, res) => {
     res.status(500).json(apiError);
   } finally {
     // Always release regeneration lock
-    if (isRegeneration) {
+    if (lockRegeneration) {
       regenerationInProgress = false;
       console.log('🔓 Regeneration lock released');
     }
@@ -339,6 +1084,15 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json(apiError);
     }
 
+    // The running sprint has to be closed first; planned and closed sprints can be archived
+    if (existingSprint.state === 'active') {
+      const apiError: ApiError = {
+        error: 'Invalid sprint state',
+        message: `"${existingSprint.name}" is active; close it before archiving it`
+      };
+      return res.status(409).json(apiError);
+    }
+
     const sprint = await prisma.sprint.update({
       where: { id },
       data: {
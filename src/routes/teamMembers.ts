@@ -1,13 +1,17 @@
 import express from 'express';
 import { prisma } from '../lib/prisma';
+import { loadMemberLoad, MemberLoad } from '../lib/memberLoad';
+import { suggestReplanning, ReplanningReport } from '../lib/replanning';
+import { checkTeam, getTeamFilter, teamScope } from '../lib/teamScope';
 import { TeamMemberData, PersonalHolidayData, ApiResponse, ApiError } from '../types';
 
 const router = express.Router();
 
-// GET /api/team-members - Get all team members with their personal holidays
+// GET /api/team-members - Get all team members (or a team's with ?teamId=) with their personal holidays
 router.get('/', async (req, res) => {
   try {
     const teamMembers = await prisma.teamMember.findMany({
+      where: { deletedAt: null, ...teamScope(getTeamFilter(req)) },
       include: {
         personalHolidays: true
       },
@@ -31,13 +35,62 @@ router.get('/', async (req, res) => {
   }
 });
 
+// GET /api/team-members/load - Get assigned vs. available points per sprint for every team member
+router.get('/load', async (req, res) => {
+  try {
+    const load = await loadMemberLoad(undefined, getTeamFilter(req));
+
+    const response: ApiResponse<MemberLoad[]> = {
+      data: load
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error calculating team member load:', error);
+    const apiError: ApiError = {
+      error: 'Failed to calculate team member load',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/team-members/:id/load - Get assigned vs. available points per sprint for a team member
+router.get('/:id/load', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [load] = await loadMemberLoad([id]);
+
+    if (!load) {
+      const apiError: ApiError = {
+        error: 'Team member not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const response: ApiResponse<MemberLoad> = {
+      data: load
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error calculating team member load:', error);
+    const apiError: ApiError = {
+      error: 'Failed to calculate team member load',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
 // GET /api/team-members/:id - Get a specific team member
 router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
     
-    const teamMember = await prisma.teamMember.findUnique({
-      where: { id },
+    const teamMember = await prisma.teamMember.findFirst({
+      where: { id, deletedAt: null },
       include: {
         personalHolidays: true
       }
@@ -68,7 +121,7 @@ router.get('/:id', async (req, res) => {
 // POST /api/team-members - Create a new team member
 router.post('/', async (req, res) => {
   try {
-    const { name, capacity, skills }: TeamMemberData = req.body;
+    const { name, capacity, skills, teamId }: TeamMemberData = req.body;
 
     if (!name || capacity === undefined || !skills || !Array.isArray(skills)) {
       const apiError: ApiError = {
@@ -86,11 +139,17 @@ router.post('/', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
     const teamMember = await prisma.teamMember.create({
       data: {
         name,
         capacity,
-        skills
+        skills,
+        teamId: teamId || null
       },
       include: {
         personalHolidays: true
@@ -117,11 +176,11 @@ router.post('/', async (req, res) => {
 router.put('/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, capacity, skills }: Partial<TeamMemberData> = req.body;
+    const { name, capacity, skills, teamId }: Partial<TeamMemberData> = req.body;
 
     // Check if team member exists
-    const existingTeamMember = await prisma.teamMember.findUnique({
-      where: { id }
+    const existingTeamMember = await prisma.teamMember.findFirst({
+      where: { id, deletedAt: null }
     });
 
     if (!existingTeamMember) {
@@ -140,12 +199,18 @@ router.put('/:id', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
     const teamMember = await prisma.teamMember.update({
       where: { id },
       data: {
         ...(name && { name }),
         ...(capacity !== undefined && { capacity }),
-        ...(skills && { skills })
+        ...(skills && { skills }),
+        ...(teamId !== undefined && { teamId: teamId || null })
       },
       include: {
         personalHolidays: true
@@ -168,14 +233,14 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-// DELETE /api/team-members/:id - Delete a team member
+// DELETE /api/team-members/:id - Move a team member to the trash (personal holidays and assignments are kept for a restore)
 router.delete('/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
     // Check if team member exists
-    const existingTeamMember = await prisma.teamMember.findUnique({
-      where: { id }
+    const existingTeamMember = await prisma.teamMember.findFirst({
+      where: { id, deletedAt: null }
     });
 
     if (!existingTeamMember) {
@@ -185,13 +250,16 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json(apiError);
     }
 
-    await prisma.teamMember.delete({
-      where: { id }
+    await prisma.teamMember.update({
+      where: { id },
+      data: {
+        deletedAt: new Date()
+      }
     });
 
     const response: ApiResponse<{ id: string }> = {
       data: { id },
-      message: 'Team member deleted successfully'
+      message: 'Team member moved to the trash'
     };
 
     res.json(response);
@@ -220,8 +288,8 @@ router.post('/:id/holidays', async (req, res) => {
     }
 
     // Check if team member exists
-    const teamMember = await prisma.teamMember.findUnique({
-      where: { id }
+    const teamMember = await prisma.teamMember.findFirst({
+      where: { id, deletedAt: null }
     });
 
     if (!teamMember) {
@@ -240,9 +308,14 @@ router.post('/:id/holidays', async (req, res) => {
       }
     });
 
-    const response: ApiResponse<typeof holiday> = {
-      data: holiday,
-      message: 'Personal holiday added successfully'
+    // Less capacity may leave the team's sprints overlapping the holiday over-committed
+    const replanning = await suggestReplanning(holiday.startDate, holiday.endDate, teamMember.teamId);
+
+    const response: ApiResponse<typeof holiday & { replanning: ReplanningReport }> = {
+      data: { ...holiday, replanning },
+      message: replanning.moves.length > 0
+        ? `Personal holiday added successfully; ${replanning.moves.length} move(s) suggested to rebalance affected sprints`
+        : 'Personal holiday added successfully'
     };
 
     res.status(201).json(response);
@@ -266,6 +339,9 @@ router.delete('/:id/holidays/:holidayId', async (req, res) => {
       where: {
         id: holidayId,
         teamMemberId: id
+      },
+      include: {
+        teamMember: true
       }
     });
 
@@ -280,8 +356,10 @@ router.delete('/:id/holidays/:holidayId', async (req, res) => {
       where: { id: holidayId }
     });
 
-    const response: ApiResponse<{ id: string }> = {
-      data: { id: holidayId },
+    const replanning = await suggestReplanning(holiday.startDate, holiday.endDate, holiday.teamMember.teamId);
+
+    const response: ApiResponse<{ id: string; replanning: ReplanningReport }> = {
+      data: { id: holidayId, replanning },
       message: 'Personal holiday removed successfully'
     };
 
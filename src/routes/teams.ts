@@ -0,0 +1,317 @@
+import express from 'express';
+import { prisma } from '../lib/prisma';
+import { loadSprintCommitments } from '../lib/commitment';
+import { analyseVelocity, loadVelocityHistory, VelocityTrend } from '../lib/velocity';
+import { getTeamFilter } from '../lib/teamScope';
+import { TeamData, ApiResponse, ApiError } from '../types';
+
+const router = express.Router();
+
+interface TeamPortfolioEntry {
+  teamId: string;
+  name: string;
+  memberCount: number;
+  upcomingSprints: number;
+  availableVelocity: number; // Summed over upcoming sprints
+  committedPoints: number;
+  utilization: number;
+  overCommittedSprints: number;
+  rollingAverage3: number | null;
+  rollingAverage6: number | null;
+  velocityTrend: VelocityTrend;
+}
+
+// Round to two decimal places for API output
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// GET /api/teams - Get all teams
+router.get('/', async (req, res) => {
+  try {
+    const teams = await prisma.team.findMany({
+      include: {
+        _count: {
+          select: {
+            members: { where: { deletedAt: null } },
+            sprints: true,
+            workItems: { where: { deletedAt: null } }
+          }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    });
+
+    const response: ApiResponse<typeof teams> = {
+      data: teams
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching teams:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch teams',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/teams/portfolio - Capacity and velocity of every team (or ?teamId=) side by side
+router.get('/portfolio', async (req, res) => {
+  try {
+    const teamId = getTeamFilter(req);
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+
+    const teams = await prisma.team.findMany({
+      where: teamId ? { id: teamId } : {},
+      include: {
+        _count: {
+          select: { members: { where: { deletedAt: null } } }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    });
+
+    const entries: TeamPortfolioEntry[] = [];
+    for (const team of teams) {
+      const [commitments, history] = await Promise.all([
+        loadSprintCommitments({ archived: false, teamId: team.id, endDate: { gte: today } }),
+        loadVelocityHistory(team.id)
+      ]);
+      const velocity = analyseVelocity(history);
+
+      const availableVelocity = commitments.reduce((total, sprint) => total + sprint.availableVelocity, 0);
+      const committedPoints = commitments.reduce((total, sprint) => total + sprint.committedPoints, 0);
+
+      entries.push({
+        teamId: team.id,
+        name: team.name,
+        memberCount: team._count.members,
+        upcomingSprints: commitments.length,
+        availableVelocity: round(availableVelocity),
+        committedPoints: round(committedPoints),
+        utilization: availableVelocity > 0 ? round(committedPoints / availableVelocity) : 0,
+        overCommittedSprints: commitments.filter(sprint => sprint.overCommitted).length,
+        rollingAverage3: velocity.rollingAverage3,
+        rollingAverage6: velocity.rollingAverage6,
+        velocityTrend: velocity.trend
+      });
+    }
+
+    const totalAvailable = entries.reduce((total, entry) => total + entry.availableVelocity, 0);
+    const totalCommitted = entries.reduce((total, entry) => total + entry.committedPoints, 0);
+    const portfolio = {
+      teams: entries,
+      totals: {
+        teams: entries.length,
+        memberCount: entries.reduce((total, entry) => total + entry.memberCount, 0),
+        availableVelocity: round(totalAvailable),
+        committedPoints: round(totalCommitted),
+        utilization: totalAvailable > 0 ? round(totalCommitted / totalAvailable) : 0,
+        overCommittedSprints: entries.reduce((total, entry) => total + entry.overCommittedSprints, 0),
+        // Combined recent delivery of all teams per sprint cadence
+        rollingAverage3: round(entries.reduce((total, entry) => total + (entry.rollingAverage3 || 0), 0)),
+        rollingAverage6: round(entries.reduce((total, entry) => total + (entry.rollingAverage6 || 0), 0))
+      }
+    };
+
+    const response: ApiResponse<typeof portfolio> = {
+      data: portfolio
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error building team portfolio:', error);
+    const apiError: ApiError = {
+      error: 'Failed to build team portfolio',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/teams/:id - Get a specific team
+router.get('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const team = await prisma.team.findUnique({
+      where: { id },
+      include: {
+        members: { where: { deletedAt: null } }
+      }
+    });
+
+    if (!team) {
+      const apiError: ApiError = {
+        error: 'Team not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const response: ApiResponse<typeof team> = {
+      data: team
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching team:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch team',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/teams - Create a new team
+router.post('/', async (req, res) => {
+  try {
+    const { name, description }: TeamData = req.body;
+
+    if (!name) {
+      const apiError: ApiError = {
+        error: 'Missing required fields',
+        message: 'name is required'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const existingTeam = await prisma.team.findUnique({
+      where: { name }
+    });
+
+    if (existingTeam) {
+      const apiError: ApiError = {
+        error: 'Team already exists',
+        message: `A team named "${name}" already exists`
+      };
+      return res.status(409).json(apiError);
+    }
+
+    const team = await prisma.team.create({
+      data: {
+        name,
+        description
+      }
+    });
+
+    const response: ApiResponse<typeof team> = {
+      data: team,
+      message: 'Team created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating team:', error);
+    const apiError: ApiError = {
+      error: 'Failed to create team',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// PUT /api/teams/:id - Update a team
+router.put('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description }: Partial<TeamData> = req.body;
+
+    const existingTeam = await prisma.team.findUnique({
+      where: { id }
+    });
+
+    if (!existingTeam) {
+      const apiError: ApiError = {
+        error: 'Team not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const team = await prisma.team.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(description !== undefined && { description })
+      }
+    });
+
+    const response: ApiResponse<typeof team> = {
+      data: team,
+      message: 'Team updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating team:', error);
+    const apiError: ApiError = {
+      error: 'Failed to update team',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/teams/:id - Delete a team that no longer owns any members, sprints or work items
+router.delete('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingTeam = await prisma.team.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: {
+            members: { where: { deletedAt: null } },
+            sprints: true,
+            workItems: { where: { deletedAt: null } }
+          }
+        }
+      }
+    });
+
+    if (!existingTeam) {
+      const apiError: ApiError = {
+        error: 'Team not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const { members, sprints, workItems } = existingTeam._count;
+    if (members + sprints + workItems > 0) {
+      const apiError: ApiError = {
+        error: 'Team not empty',
+        message: `Move or delete its ${members} member(s), ${sprints} sprint(s) and ${workItems} work item(s) first`
+      };
+      return res.status(409).json(apiError);
+    }
+
+    await prisma.team.delete({
+      where: { id }
+    });
+
+    const response: ApiResponse<{ id: string }> = {
+      data: { id },
+      message: 'Team deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting team:', error);
+    const apiError: ApiError = {
+      error: 'Failed to delete team',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+export default router;
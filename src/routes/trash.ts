@@ -0,0 +1,191 @@
+import express from 'express';
+import { prisma } from '../lib/prisma';
+import { requireRole } from '../lib/auth';
+import { recordAudit } from '../lib/audit';
+import { getTeamFilter, teamScope } from '../lib/teamScope';
+import { purgeDate, purgeTrash, restoreWorkItem, RestoreResult, trashRetentionDays } from '../lib/trash';
+import { ApiResponse, ApiError, ApiWarning } from '../types';
+
+const router = express.Router();
+
+const TRASH_TYPES = ['work-items', 'team-members'];
+
+// GET /api/trash - Trashed work items and team members with the date each will be purged (?type=work-items|team-members, ?teamId=)
+router.get('/', async (req, res) => {
+  try {
+    const type = req.query.type as string | undefined;
+    if (type && !TRASH_TYPES.includes(type)) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: `type must be one of ${TRASH_TYPES.join(', ')}`
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const where = { deletedAt: { not: null }, ...teamScope(getTeamFilter(req)) };
+    const [workItems, teamMembers] = await Promise.all([
+      type === 'team-members' ? [] : prisma.workItem.findMany({
+        where,
+        select: {
+          id: true,
+          title: true,
+          jiraId: true,
+          isEpic: true,
+          epicId: true,
+          teamId: true,
+          deletedAt: true
+        },
+        orderBy: {
+          deletedAt: 'desc'
+        }
+      }),
+      type === 'work-items' ? [] : prisma.teamMember.findMany({
+        where,
+        select: {
+          id: true,
+          name: true,
+          teamId: true,
+          deletedAt: true
+        },
+        orderBy: {
+          deletedAt: 'desc'
+        }
+      })
+    ]);
+
+    const data = {
+      retentionDays: trashRetentionDays(),
+      workItems: workItems.map(item => ({ ...item, purgeAt: purgeDate(item.deletedAt!) })),
+      teamMembers: teamMembers.map(member => ({ ...member, purgeAt: purgeDate(member.deletedAt!) }))
+    };
+
+    const response: ApiResponse<typeof data> = {
+      data
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch trash',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/trash/work-items/:id/restore - Restore a work item with its dependencies and sprint assignments
+router.post('/work-items/:id/restore', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const workItem = await prisma.workItem.findFirst({
+      where: {
+        id,
+        deletedAt: { not: null }
+      }
+    });
+
+    if (!workItem) {
+      const apiError: ApiError = {
+        error: 'Work item not found in trash'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const result = await prisma.$transaction(async (tx) => restoreWorkItem(tx, workItem));
+    const warnings: ApiWarning[] = result.skipped.map(message => ({ type: 'link-not-restored', message }));
+
+    console.log(`♻️ Restored work item ${workItem.title} (${result.restoredDependencies} dependencies, ${result.restoredSprintAssignments} sprint assignments)`);
+
+    const response: ApiResponse<{ id: string } & Omit<RestoreResult, 'skipped'>> = {
+      data: {
+        id,
+        restoredDependencies: result.restoredDependencies,
+        restoredSprintAssignments: result.restoredSprintAssignments
+      },
+      message: 'Work item restored successfully',
+      ...(warnings.length > 0 && { warnings })
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error restoring work item:', error);
+    const apiError: ApiError = {
+      error: 'Failed to restore work item',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/trash/team-members/:id/restore - Restore a team member with their personal holidays and assigned work
+router.post('/team-members/:id/restore', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingTeamMember = await prisma.teamMember.findFirst({
+      where: {
+        id,
+        deletedAt: { not: null }
+      }
+    });
+
+    if (!existingTeamMember) {
+      const apiError: ApiError = {
+        error: 'Team member not found in trash'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const teamMember = await prisma.teamMember.update({
+      where: { id },
+      data: {
+        deletedAt: null
+      },
+      include: {
+        personalHolidays: true
+      }
+    });
+
+    console.log(`♻️ Restored team member ${teamMember.name}`);
+
+    const response: ApiResponse<typeof teamMember> = {
+      data: teamMember,
+      message: 'Team member restored successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error restoring team member:', error);
+    const apiError: ApiError = {
+      error: 'Failed to restore team member',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/trash/purge - Permanently delete everything older than the retention period now, instead of waiting for the daily job
+router.post('/purge', requireRole('admin'), async (req, res) => {
+  try {
+    const counts = await purgeTrash();
+    await recordAudit(req, 'trash-purge', { retentionDays: trashRetentionDays() }, counts);
+
+    const response: ApiResponse<typeof counts> = {
+      data: counts,
+      message: `Purged ${counts.workItems} work item(s) and ${counts.teamMembers} team member(s)`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    const apiError: ApiError = {
+      error: 'Failed to purge trash',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+export default router;
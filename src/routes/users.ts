@@ -0,0 +1,365 @@
+import express from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { generateApiKey, hashApiKey, ROLES } from '../lib/auth';
+import { recordAudit } from '../lib/audit';
+import { UserData, ApiResponse, ApiError } from '../types';
+
+const router = express.Router();
+
+// Fields returned for a user; the API key hash never leaves the server
+const USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  active: true,
+  apiKeyPrefix: true,
+  lastSeenAt: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+const CreateUserRequestSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email(),
+  role: z.enum(ROLES).default('viewer')
+});
+
+const UpdateUserRequestSchema = z.object({
+  name: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  role: z.enum(ROLES).optional(),
+  active: z.boolean().optional()
+});
+
+// Helper function to issue a new API key; only the hash and a short prefix are stored
+function newApiKey() {
+  const apiKey = generateApiKey();
+  return { apiKey, apiKeyHash: hashApiKey(apiKey), apiKeyPrefix: apiKey.slice(0, 10) };
+}
+
+// Helper function to stop the last active admin being demoted, deactivated or deleted
+async function isLastAdmin(userId: string): Promise<boolean> {
+  const otherAdmins = await prisma.user.count({
+    where: {
+      role: 'admin',
+      active: true,
+      id: { not: userId }
+    }
+  });
+  return otherAdmins === 0;
+}
+
+// GET /api/users - Get all users
+router.get('/', async (req, res) => {
+  try {
+    const users = await prisma.user.findMany({
+      select: USER_SELECT,
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+
+    const response: ApiResponse<typeof users> = {
+      data: users
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch users',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// GET /api/users/:id - Get a specific user
+router.get('/:id', async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: USER_SELECT
+    });
+
+    if (!user) {
+      const apiError: ApiError = {
+        error: 'User not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const response: ApiResponse<typeof user> = {
+      data: user
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/users - Create a user with an API key (returned once, in this response only)
+router.post('/', async (req, res) => {
+  try {
+    const parsed = CreateUserRequestSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: `name and email are required; role must be one of ${ROLES.join(', ')}`,
+        details: parsed.error.issues
+      };
+      return res.status(400).json(apiError);
+    }
+    const { name, email, role }: UserData = parsed.data;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (existingUser) {
+      const apiError: ApiError = {
+        error: 'User already exists',
+        message: `A user with email ${email} already exists`
+      };
+      return res.status(409).json(apiError);
+    }
+
+    const { apiKey, apiKeyHash, apiKeyPrefix } = newApiKey();
+    const user = await prisma.user.create({
+      data: { name, email, role, apiKeyHash, apiKeyPrefix },
+      select: USER_SELECT
+    });
+
+    await recordAudit(req, 'user-create', { userId: user.id, email, role }, { users: 1 });
+    console.log(`👤 Created ${role} user ${email}`);
+
+    const response: ApiResponse<{ user: typeof user; apiKey: string }> = {
+      data: { user, apiKey },
+      message: 'User created successfully; store the API key now, it cannot be shown again'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating user:', error);
+    const apiError: ApiError = {
+      error: 'Failed to create user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// PUT /api/users/:id - Update a user's name, email, role or active flag
+router.put('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const parsed = UpdateUserRequestSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: `role must be one of ${ROLES.join(', ')} and active a boolean`,
+        details: parsed.error.issues
+      };
+      return res.status(400).json(apiError);
+    }
+    const { name, email, role, active }: Partial<UserData> = parsed.data;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existingUser) {
+      const apiError: ApiError = {
+        error: 'User not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const losesAdmin = existingUser.role === 'admin' && existingUser.active &&
+      ((role !== undefined && role !== 'admin') || active === false);
+    if (losesAdmin && await isLastAdmin(id)) {
+      const apiError: ApiError = {
+        error: 'Last admin',
+        message: 'Promote another user to admin before demoting or deactivating this one'
+      };
+      return res.status(409).json(apiError);
+    }
+
+    if (email && email !== existingUser.email) {
+      const emailTaken = await prisma.user.findUnique({
+        where: { email }
+      });
+
+      if (emailTaken) {
+        const apiError: ApiError = {
+          error: 'User already exists',
+          message: `A user with email ${email} already exists`
+        };
+        return res.status(409).json(apiError);
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(email && { email }),
+        ...(role && { role }),
+        ...(active !== undefined && { active })
+      },
+      select: USER_SELECT
+    });
+    await recordAudit(req, 'user-update', { userId: id, changes: parsed.data }, { users: 1 });
+
+    const response: ApiResponse<typeof user> = {
+      data: user,
+      message: 'User updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating user:', error);
+    const apiError: ApiError = {
+      error: 'Failed to update user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// POST /api/users/:id/api-key - Replace a user's API key (the old key stops working immediately)
+router.post('/:id/api-key', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existingUser) {
+      const apiError: ApiError = {
+        error: 'User not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const { apiKey, apiKeyHash, apiKeyPrefix } = newApiKey();
+    const user = await prisma.user.update({
+      where: { id },
+      data: { apiKeyHash, apiKeyPrefix },
+      select: USER_SELECT
+    });
+
+    await recordAudit(req, 'user-api-key-rotate', { userId: id }, { users: 1 });
+    console.log(`🔑 Rotated API key for ${user.email}`);
+
+    const response: ApiResponse<{ user: typeof user; apiKey: string }> = {
+      data: { user, apiKey },
+      message: 'API key rotated; store the new key now, it cannot be shown again'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error rotating API key:', error);
+    const apiError: ApiError = {
+      error: 'Failed to rotate API key',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/users/:id/api-key - Revoke a user's API key (tokens they already hold keep working until they expire)
+router.delete('/:id/api-key', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existingUser) {
+      const apiError: ApiError = {
+        error: 'User not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { apiKeyHash: null, apiKeyPrefix: null },
+      select: USER_SELECT
+    });
+    await recordAudit(req, 'user-api-key-revoke', { userId: id }, { users: 1 });
+
+    const response: ApiResponse<typeof user> = {
+      data: user,
+      message: 'API key revoked successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    const apiError: ApiError = {
+      error: 'Failed to revoke API key',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/users/:id - Delete a user
+router.delete('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existingUser) {
+      const apiError: ApiError = {
+        error: 'User not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    if (existingUser.role === 'admin' && existingUser.active && await isLastAdmin(id)) {
+      const apiError: ApiError = {
+        error: 'Last admin',
+        message: 'Promote another user to admin before deleting this one'
+      };
+      return res.status(409).json(apiError);
+    }
+
+    await prisma.user.delete({
+      where: { id }
+    });
+    await recordAudit(req, 'user-delete', { userId: id, email: existingUser.email }, { users: 1 });
+
+    const response: ApiResponse<{ id: string }> = {
+      data: { id },
+      message: 'User deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    const apiError: ApiError = {
+      error: 'Failed to delete user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+export default router;
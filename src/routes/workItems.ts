@@ -1,13 +1,116 @@
 import express from 'express';
 import { prisma } from '../lib/prisma';
-import { WorkItemData, ApiResponse, ApiError, WorkItemResponse } from '../types';
+import { buildDependencyMap, findAllCycles, findCycleThrough } from '../lib/dependencyGraph';
+import { loadSprintCommitments } from '../lib/commitment';
+import { diffWorkItem, recordWorkItemChanges, WORK_ITEM_EVENT_SOURCES, WorkItemEventSource } from '../lib/workItemHistory';
+import { checkTeam, getTeamFilter, teamScope } from '../lib/teamScope';
+import { requireRole } from '../lib/auth';
+import { recordAudit } from '../lib/audit';
+import { softDeleteWorkItem } from '../lib/trash';
+import { createBackup } from '../lib/snapshot';
+import { CONFIRMATION_TTL_SECONDS, consumeConfirmation, issueConfirmation, ResetOperation } from '../lib/resetConfirmation';
+import { parseCsv } from '../lib/csv';
+import { formatWorkItemsCsv, ImportItemRef, planWorkItemImport, WorkItemCsvContext } from '../lib/workItemCsv';
+import { WorkItemData, ApiResponse, ApiError, ApiWarning, WorkItemResponse } from '../types';
 
 const router = express.Router();
 
-// GET /api/work-items - Get all work items with dependencies and sprint assignments
+// Large imports take longer than Prisma's default five-second interactive transaction
+const IMPORT_TRANSACTION_TIMEOUT = 2 * 60 * 1000;
+// Resets delete every matching row and its audit entry in one transaction, so they get the same headroom
+const RESET_TRANSACTION_TIMEOUT = 2 * 60 * 1000;
+
+// Helper function to load the names and titles CSV cells are resolved against, for one team or all.
+// Work items of every team are loaded because Jira IDs must stay unique across teams; planWorkItemImport
+// only resolves references to the team's own items.
+async function loadCsvContext(teamId?: string): Promise<WorkItemCsvContext> {
+  const [workItems, teamMembers, teams] = await Promise.all([
+    prisma.workItem.findMany({
+      where: { deletedAt: null },
+      select: { id: true, title: true, jiraId: true, isEpic: true, teamId: true }
+    }),
+    prisma.teamMember.findMany({
+      where: { deletedAt: null, ...teamScope(teamId) },
+      select: { id: true, name: true, skills: true }
+    }),
+    prisma.team.findMany({
+      where: teamId ? { id: teamId } : {},
+      select: { id: true, name: true }
+    })
+  ]);
+
+  return { workItems, teamMembers, teams };
+}
+
+// Helper function to find the cycle (if any) that a work item's new dependencies would create
+async function findDependencyCycle(workItemId: string, dependencies: string[]): Promise<string[] | null> {
+  const existingEdges = await prisma.workItemDependency.findMany({
+    where: {
+      workItemId: { not: workItemId }
+    }
+  });
+
+  const dependencyMap = buildDependencyMap([
+    ...existingEdges,
+    ...dependencies.map(dependsOnId => ({ workItemId, dependsOnId }))
+  ]);
+
+  return findCycleThrough(workItemId, dependencyMap);
+}
+
+// Helper function to check a team member has every skill a work item requires
+async function checkAssigneeSkills(teamMemberId: string, requiredSkills: string[]): Promise<ApiError | null> {
+  const teamMember = await prisma.teamMember.findFirst({
+    where: { id: teamMemberId, deletedAt: null }
+  });
+
+  if (!teamMember) {
+    return {
+      error: 'Invalid assignee',
+      message: 'Assigned team member does not exist'
+    };
+  }
+
+  const memberSkills = Array.isArray(teamMember.skills) ? (teamMember.skills as string[]) : [];
+  const missingSkills = requiredSkills.filter(skill => !memberSkills.includes(skill));
+
+  if (missingSkills.length > 0) {
+    return {
+      error: 'Assignee lacks required skills',
+      message: `${teamMember.name} does not have the required skill(s): ${missingSkills.join(', ')}`,
+      details: { teamMemberId, missingSkills }
+    };
+  }
+
+  return null;
+}
+
+// Helper function to turn a cycle of IDs into titled steps and a readable path
+async function describeCycle(cycle: string[]) {
+  const workItems = await prisma.workItem.findMany({
+    where: {
+      id: { in: cycle }
+    },
+    select: {
+      id: true,
+      title: true
+    }
+  });
+  const titles = new Map(workItems.map(item => [item.id, item.title]));
+  const path = cycle.map(id => ({ id, title: titles.get(id) || id }));
+
+  return {
+    path,
+    description: path.map(step => step.title).join(' → ')
+  };
+}
+
+// GET /api/work-items - Get all work items (or a team's with ?teamId=) with dependencies and sprint assignments (?format=csv for a spreadsheet)
 router.get('/', async (req, res) => {
   try {
+    const teamId = getTeamFilter(req);
     const workItems = await prisma.workItem.findMany({
+      where: { deletedAt: null, ...teamScope(teamId) },
       include: {
         dependencies: {
           include: {
@@ -25,6 +128,12 @@ router.get('/', async (req, res) => {
       }
     });
 
+    if (req.query.format === 'csv') {
+      const csv = formatWorkItemsCsv(workItems, await loadCsvContext(teamId));
+      res.attachment(`work-items-${new Date().toISOString().slice(0, 10)}.csv`);
+      return res.type('text/csv').send(csv);
+    }
+
     // Transform the data to match frontend expectations
     const transformedWorkItems = workItems.map(item => ({
       ...item,
@@ -117,13 +226,50 @@ router.get('/', async (req, res) => {
   }
 });
 
+// GET /api/work-items/dependency-graph/validate - Report any dependency cycles already stored
+router.get('/dependency-graph/validate', async (req, res) => {
+  try {
+    const edges = await prisma.workItemDependency.findMany({
+      where: {
+        workItem: teamScope(getTeamFilter(req))
+      }
+    });
+    const cycles = findAllCycles(buildDependencyMap(edges));
+    const describedCycles = await Promise.all(cycles.map(cycle => describeCycle(cycle)));
+
+    if (cycles.length > 0) {
+      console.warn(`⚠️ Dependency graph contains ${cycles.length} cycle(s)`);
+    }
+
+    const response: ApiResponse<{ valid: boolean; dependencyCount: number; cycles: typeof describedCycles }> = {
+      data: {
+        valid: cycles.length === 0,
+        dependencyCount: edges.length,
+        cycles: describedCycles
+      },
+      message: cycles.length === 0
+        ? 'Dependency graph has no cycles'
+        : `Dependency graph contains ${cycles.length} cycle(s)`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error validating dependency graph:', error);
+    const apiError: ApiError = {
+      error: 'Failed to validate dependency graph',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
 // GET /api/work-items/:id - Get a specific work item
 router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
     
-    const workItem = await prisma.workItem.findUnique({
-      where: { id },
+    const workItem = await prisma.workItem.findFirst({
+      where: { id, deletedAt: null },
       include: {
         dependencies: {
           include: {
@@ -167,6 +313,58 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// GET /api/work-items/:id/history - Get the field change history of a work item (?field=, ?source=)
+router.get('/:id/history', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const field = typeof req.query.field === 'string' ? req.query.field : undefined;
+    const source = typeof req.query.source === 'string' ? req.query.source : undefined;
+
+    if (source && !WORK_ITEM_EVENT_SOURCES.includes(source as WorkItemEventSource)) {
+      const apiError: ApiError = {
+        error: 'Invalid source',
+        message: `source must be one of: ${WORK_ITEM_EVENT_SOURCES.join(', ')}`
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const workItem = await prisma.workItem.findUnique({
+      where: { id }
+    });
+
+    if (!workItem) {
+      const apiError: ApiError = {
+        error: 'Work item not found'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    const events = await prisma.workItemEvent.findMany({
+      where: {
+        workItemId: id,
+        ...(field && { field }),
+        ...(source && { source })
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    const response: ApiResponse<typeof events> = {
+      data: events
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching work item history:', error);
+    const apiError: ApiError = {
+      error: 'Failed to fetch work item history',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
 // POST /api/work-items - Create a new work item
 router.post('/', async (req, res) => {
   try {
@@ -182,7 +380,9 @@ router.post('/', async (req, res) => {
       jiraStatus,
       epicId,
       isEpic = false,
-      priority = 'Medium'
+      priority = 'Medium',
+      assigneeId,
+      teamId
     }: WorkItemData = req.body;
 
     if (!title || !estimateStoryPoints || !requiredCompletionDate || !requiredSkills || (Array.isArray(requiredSkills) && requiredSkills.length === 0)) {
@@ -224,11 +424,15 @@ router.post('/', async (req, res) => {
       estimateStoryPoints = 20;
     }
 
+    // A new item has no dependents yet, so it cannot close a cycle; only drop repeated IDs
+    dependencies = Array.from(new Set(dependencies));
+
     // Validate dependencies exist
     if (dependencies.length > 0) {
       const existingDependencies = await prisma.workItem.findMany({
         where: {
-          id: { in: dependencies }
+          id: { in: dependencies },
+          deletedAt: null
         }
       });
 
@@ -241,12 +445,26 @@ router.post('/', async (req, res) => {
       }
     }
 
+    // The assignee has to be able to do the work
+    if (assigneeId) {
+      const skillError = await checkAssigneeSkills(assigneeId, requiredSkills);
+      if (skillError) {
+        return res.status(400).json(skillError);
+      }
+    }
+
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
     // Check for duplicate epic work items by jiraId
     if (isEpic && jiraId) {
       const existingEpic = await prisma.workItem.findFirst({
         where: {
           jiraId,
-          isEpic: true
+          isEpic: true,
+          deletedAt: null
         }
       });
 
@@ -274,7 +492,9 @@ router.post('/', async (req, res) => {
           jiraStatus,
           epicId,
           isEpic,
-          priority
+          priority,
+          assigneeId,
+          teamId: teamId || null
         }
       });
 
@@ -307,6 +527,118 @@ router.post('/', async (req, res) => {
   }
 });
 
+// POST /api/work-items/import - Create work items from a CSV file (text/csv body, or JSON { csv }).
+// Every row is validated first; if any row fails, nothing is created and the per-row errors are returned.
+// ?dryRun=true validates without creating anything. With ?teamId= rows belong to that team and names
+// only resolve to its members and work items.
+router.post('/import', express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }), async (req, res) => {
+  try {
+    const csv: unknown = typeof req.body === 'string' ? req.body : req.body?.csv;
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+    const teamId = getTeamFilter(req);
+
+    if (typeof csv !== 'string' || csv.trim() === '') {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: 'Send the CSV as a text/csv body, or as JSON { csv }'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
+    }
+
+    let rows: string[][];
+    try {
+      rows = parseCsv(csv);
+    } catch (error) {
+      const apiError: ApiError = {
+        error: 'Invalid CSV',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const plan = planWorkItemImport(rows, await loadCsvContext(teamId), teamId);
+    const warnings: ApiWarning[] = plan.warnings.map(message => ({ type: 'csv-import', message }));
+    const report = { rows: Math.max(rows.length - 1, 0), valid: plan.items.length, errors: plan.errors };
+
+    if (plan.errors.length > 0) {
+      const apiError: ApiError = {
+        error: 'Invalid CSV rows',
+        message: `${plan.errors.length} row(s) have errors; nothing was imported`,
+        details: { ...report, warnings }
+      };
+      return res.status(400).json(apiError);
+    }
+
+    if (dryRun) {
+      const response: ApiResponse<typeof report & { created: [] }> = {
+        data: { ...report, created: [] },
+        message: `All ${plan.items.length} row(s) are valid; nothing was imported (dry run)`,
+        ...(warnings.length > 0 && { warnings })
+      };
+      return res.json(response);
+    }
+
+    // Create the items first, then link epics and dependencies that point at other rows of the file
+    const created = await prisma.$transaction(async (tx) => {
+      const ids: string[] = [];
+      for (const item of plan.items) {
+        const workItem = await tx.workItem.create({
+          data: {
+            ...item.data,
+            requiredCompletionDate: new Date(item.data.requiredCompletionDate),
+            epicId: item.epic && 'workItemId' in item.epic ? item.epic.workItemId : null
+          }
+        });
+        ids.push(workItem.id);
+      }
+
+      // Rows with errors were rejected above, so row indexes and created items line up
+      const idOf = (ref: ImportItemRef) => ('workItemId' in ref ? ref.workItemId : ids[ref.rowIndex]);
+
+      for (const [index, item] of plan.items.entries()) {
+        if (item.epic && 'rowIndex' in item.epic) {
+          await tx.workItem.update({
+            where: { id: ids[index] },
+            data: { epicId: idOf(item.epic) }
+          });
+        }
+      }
+
+      const dependencies = plan.items.flatMap((item, index) => item.dependencies.map(dependency => ({
+        workItemId: ids[index],
+        dependsOnId: idOf(dependency)
+      })));
+      if (dependencies.length > 0) {
+        await tx.workItemDependency.createMany({ data: dependencies });
+      }
+
+      return plan.items.map((item, index) => ({ row: item.row, id: ids[index], title: item.data.title }));
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT });
+
+    console.log(`📥 Imported ${created.length} work items from CSV${teamId ? ` for team ${teamId}` : ''}`);
+
+    const response: ApiResponse<typeof report & { created: typeof created }> = {
+      data: { ...report, created },
+      message: `Imported ${created.length} work item(s)`,
+      ...(warnings.length > 0 && { warnings })
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error importing work items:', error);
+    const apiError: ApiError = {
+      error: 'Failed to import work items',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
 // PUT /api/work-items/:id - Update a work item
 router.put('/:id', async (req, res) => {
   try {
@@ -323,12 +655,14 @@ router.put('/:id', async (req, res) => {
       jiraStatus,
       epicId,
       isEpic,
-      priority
+      priority,
+      assigneeId,
+      teamId
     }: Partial<WorkItemData> = req.body;
 
     // Check if work item exists
-    const existingWorkItem = await prisma.workItem.findUnique({
-      where: { id }
+    const existingWorkItem = await prisma.workItem.findFirst({
+      where: { id, deletedAt: null }
     });
 
     if (!existingWorkItem) {
@@ -357,6 +691,8 @@ router.put('/:id', async (req, res) => {
 
     // Validate dependencies if provided
     if (dependencies) {
+      dependencies = Array.from(new Set(dependencies));
+
       // Prevent self-dependency
       if (dependencies.includes(id)) {
         const apiError: ApiError = {
@@ -368,7 +704,8 @@ router.put('/:id', async (req, res) => {
 
       const existingDependencies = await prisma.workItem.findMany({
         where: {
-          id: { in: dependencies }
+          id: { in: dependencies },
+          deletedAt: null
         }
       });
 
@@ -379,10 +716,42 @@ router.put('/:id', async (req, res) => {
         };
         return res.status(400).json(apiError);
       }
+
+      // Reject changes that would make the item (transitively) depend on itself
+      const cycle = await findDependencyCycle(id, dependencies);
+      if (cycle) {
+        const { path, description } = await describeCycle(cycle);
+        console.warn(`🔁 Rejected dependency update for ${id}: ${description}`);
+        const apiError: ApiError = {
+          error: 'Dependency cycle detected',
+          message: `Dependencies would create a cycle: ${description}`,
+          details: { cycle: path }
+        };
+        return res.status(400).json(apiError);
+      }
+    }
+
+    // Re-check the assignee when it changes, or when the required skills change under it
+    const effectiveAssigneeId = assigneeId !== undefined ? assigneeId : existingWorkItem.assigneeId;
+    if (effectiveAssigneeId && (assigneeId || requiredSkills)) {
+      const effectiveSkills = requiredSkills || (Array.isArray(existingWorkItem.requiredSkills) ? (existingWorkItem.requiredSkills as string[]) : []);
+      const skillError = await checkAssigneeSkills(effectiveAssigneeId, effectiveSkills);
+      if (skillError) {
+        return res.status(400).json(skillError);
+      }
+    }
+
+    const teamError = await checkTeam(teamId);
+    if (teamError) {
+      return res.status(400).json(teamError);
     }
 
     // Update work item and dependencies in a transaction
     const result = await prisma.$transaction(async (tx) => {
+      const previousDependencies = await tx.workItemDependency.findMany({
+        where: { workItemId: id }
+      });
+
       const workItem = await tx.workItem.update({
         where: { id },
         data: {
@@ -396,7 +765,9 @@ router.put('/:id', async (req, res) => {
           ...(jiraStatus !== undefined && { jiraStatus }),
           ...(epicId !== undefined && { epicId }),
           ...(isEpic !== undefined && { isEpic }),
-          ...(priority !== undefined && { priority })
+          ...(priority !== undefined && { priority }),
+          ...(assigneeId !== undefined && { assigneeId }),
+          ...(teamId !== undefined && { teamId: teamId || null })
         }
       });
 
@@ -418,6 +789,17 @@ router.put('/:id', async (req, res) => {
         }
       }
 
+      const changes = diffWorkItem(id, existingWorkItem, workItem);
+      if (dependencies !== undefined) {
+        changes.push({
+          workItemId: id,
+          field: 'dependencies',
+          oldValue: previousDependencies.map(dep => dep.dependsOnId).sort(),
+          newValue: [...dependencies].sort()
+        });
+      }
+      await recordWorkItemChanges(tx, changes, 'manual');
+
       return workItem;
     });
 
@@ -437,10 +819,107 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-// DELETE /api/work-items/selective-reset - Selectively reset database based on data types
-router.delete('/selective-reset', async (req, res) => {
+// Helper function for the two-phase resets. A call without a confirmationToken (body or query) deletes
+// nothing: it answers with the row counts that would go and a token that confirms this exact operation.
+// Returns true only when the request carries a valid token and the deletion should go ahead.
+async function confirmReset(
+  req: express.Request,
+  res: express.Response,
+  operation: ResetOperation,
+  params: Record<string, unknown>,
+  countRows: () => Promise<{ [key: string]: number }>,
+  countKeptInTrash: () => Promise<{ [key: string]: number }>
+): Promise<boolean> {
+  const token = req.body?.confirmationToken || req.query.confirmationToken;
+
+  if (!token) {
+    const counts = await countRows();
+    const keptInTrash = await countKeptInTrash();
+    const { confirmationToken, expiresAt } = issueConfirmation(operation, params, req.user!);
+    console.log(`⚠️ ${operation} requested by ${req.user!.email || req.user!.name}; waiting for confirmation`, counts);
+
+    const response: ApiResponse<{
+      operation: ResetOperation;
+      counts: { [key: string]: number };
+      keptInTrash: { [key: string]: number };
+      confirmationToken: string;
+      expiresAt: Date;
+    }> = {
+      data: { operation, counts, keptInTrash, confirmationToken, expiresAt },
+      message: `Nothing was deleted. Repeat the request with this confirmationToken within ${CONFIRMATION_TTL_SECONDS} seconds to delete these rows; rows in the trash (keptInTrash) are left alone`
+    };
+    res.json(response);
+    return false;
+  }
+
+  if (typeof token !== 'string' || !consumeConfirmation(token, operation, params, req.user!)) {
+    const apiError: ApiError = {
+      error: 'Invalid confirmation token',
+      message: 'Tokens are single-use, expire quickly and only confirm the operation and parameters they were issued for; repeat the request without a token to get a new one'
+    };
+    res.status(400).json(apiError);
+    return false;
+  }
+
+  return true;
+}
+
+// Helper function to count what a selective reset of the given data types would delete
+async function countSelectiveReset(dataTypes: string[], scope: { teamId?: string }) {
+  const counts: { [key: string]: number } = {};
+
+  if (dataTypes.includes('workItems') || dataTypes.includes('dependencies')) {
+    counts.sprintAssignments = await prisma.sprintWorkItem.count({ where: { workItem: scope } });
+    counts.dependencies = await prisma.workItemDependency.count({ where: { workItem: scope } });
+  }
+  if (dataTypes.includes('privateHolidays')) {
+    counts.personalHolidays = await prisma.personalHoliday.count({ where: { teamMember: { ...scope, deletedAt: null } } });
+  }
+  if (dataTypes.includes('publicHolidays')) {
+    counts.publicHolidays = await prisma.publicHoliday.count({ where: scope });
+  }
+  if (dataTypes.includes('workItems')) {
+    counts.workItems = await prisma.workItem.count({ where: { ...scope, deletedAt: null } });
+  }
+  if (dataTypes.includes('sprints')) {
+    if (!dataTypes.includes('workItems')) {
+      counts.sprintAssignments = await prisma.sprintWorkItem.count({ where: { sprint: scope } });
+    }
+    counts.sprints = await prisma.sprint.count({ where: scope });
+  }
+  if (dataTypes.includes('teamMembers')) {
+    counts.teamMembers = await prisma.teamMember.count({ where: { ...scope, deletedAt: null } });
+  }
+
+  return counts;
+}
+
+// Helper function to count the trashed rows a reset of the given data types leaves alone. Resets only
+// delete live rows: the backup taken before them holds live rows only, so the trash stays restorable.
+async function countKeptInTrash(dataTypes: string[], scope: { teamId?: string }) {
+  const counts: { [key: string]: number } = {};
+
+  if (dataTypes.includes('workItems')) {
+    counts.workItems = await prisma.workItem.count({ where: { ...scope, deletedAt: { not: null } } });
+  }
+  if (dataTypes.includes('teamMembers')) {
+    counts.teamMembers = await prisma.teamMember.count({ where: { ...scope, deletedAt: { not: null } } });
+  }
+  if (dataTypes.includes('privateHolidays')) {
+    counts.personalHolidays = await prisma.personalHoliday.count({ where: { teamMember: { ...scope, deletedAt: { not: null } } } });
+  }
+
+  return counts;
+}
+
+// Fixed-path DELETE routes must stay above DELETE /:id, which would otherwise match them first
+
+// DELETE /api/work-items/selective-reset - Selectively reset database based on data types, optionally for one team (two-phase, see confirmReset)
+router.delete('/selective-reset', requireRole('admin'), async (req, res) => {
   try {
     const { dataTypes } = req.body;
+    const teamId: string | undefined = req.body.teamId || getTeamFilter(req);
+    const scope = teamScope(teamId);
     
     if (!dataTypes || !Array.isArray(dataTypes) || dataTypes.length === 0) {
       const apiError: ApiError = {
@@ -450,69 +929,79 @@ router.delete('/selective-reset', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
-    console.log('🚨 Starting selective database reset...', dataTypes);
+    const params = { dataTypes: [...dataTypes].sort(), teamId: teamId ?? null };
+    const countRows = () => countSelectiveReset(dataTypes, scope);
+    if (!(await confirmReset(req, res, 'selective-reset', params, countRows, () => countKeptInTrash(dataTypes, scope)))) return;
+    const backup = await createBackup(req, 'selective-reset', params);
+
+    console.log(`🚨 Starting selective database reset${teamId ? ` for team ${teamId}` : ''}...`, dataTypes);
     
     const deletionResults: string[] = [];
     let deletedCounts: { [key: string]: number } = {};
 
-    // Always delete dependencies first if work items are being deleted
-    if (dataTypes.includes('workItems') || dataTypes.includes('dependencies')) {
-      const sprintAssignments = await prisma.sprintWorkItem.deleteMany({});
-      const dependencies = await prisma.workItemDependency.deleteMany({});
-      deletionResults.push(`✅ Cleared ${sprintAssignments.count} sprint assignments`);
-      deletionResults.push(`✅ Cleared ${dependencies.count} work item dependencies`);
-      deletedCounts.sprintAssignments = sprintAssignments.count;
-      deletedCounts.dependencies = dependencies.count;
-    }
+    await prisma.$transaction(async (tx) => {
+      // Always delete dependencies first if work items are being deleted
+      if (dataTypes.includes('workItems') || dataTypes.includes('dependencies')) {
+        const sprintAssignments = await tx.sprintWorkItem.deleteMany({ where: { workItem: scope } });
+        const dependencies = await tx.workItemDependency.deleteMany({ where: { workItem: scope } });
+        deletionResults.push(`✅ Cleared ${sprintAssignments.count} sprint assignments`);
+        deletionResults.push(`✅ Cleared ${dependencies.count} work item dependencies`);
+        deletedCounts.sprintAssignments = sprintAssignments.count;
+        deletedCounts.dependencies = dependencies.count;
+      }
 
-    // Delete personal holidays
-    if (dataTypes.includes('privateHolidays')) {
-      const result = await prisma.personalHoliday.deleteMany({});
-      deletionResults.push(`✅ Cleared ${result.count} personal holidays`);
-      deletedCounts.personalHolidays = result.count;
-    }
+      // Delete personal holidays
+      if (dataTypes.includes('privateHolidays')) {
+        const result = await tx.personalHoliday.deleteMany({ where: { teamMember: { ...scope, deletedAt: null } } });
+        deletionResults.push(`✅ Cleared ${result.count} personal holidays`);
+        deletedCounts.personalHolidays = result.count;
+      }
 
-    // Delete public holidays
-    if (dataTypes.includes('publicHolidays')) {
-      const result = await prisma.publicHoliday.deleteMany({});
-      deletionResults.push(`✅ Cleared ${result.count} public holidays`);
-      deletedCounts.publicHolidays = result.count;
-    }
+      // Delete public holidays
+      if (dataTypes.includes('publicHolidays')) {
+        const result = await tx.publicHoliday.deleteMany({ where: scope });
+        deletionResults.push(`✅ Cleared ${result.count} public holidays`);
+        deletedCounts.publicHolidays = result.count;
+      }
 
-    // Delete work items (includes epics)
-    if (dataTypes.includes('workItems')) {
-      const result = await prisma.workItem.deleteMany({});
-      deletionResults.push(`✅ Cleared ${result.count} work items and epics`);
-      deletedCounts.workItems = result.count;
-    }
+      // Delete work items (includes epics)
+      if (dataTypes.includes('workItems')) {
+        const result = await tx.workItem.deleteMany({ where: { ...scope, deletedAt: null } });
+        deletionResults.push(`✅ Cleared ${result.count} work items and epics`);
+        deletedCounts.workItems = result.count;
+      }
 
-    // Delete sprints
-    if (dataTypes.includes('sprints')) {
-      // If work items weren't deleted, we need to clear sprint assignments first
-      if (!dataTypes.includes('workItems')) {
-        const sprintAssignments = await prisma.sprintWorkItem.deleteMany({});
-        deletionResults.push(`✅ Cleared ${sprintAssignments.count} sprint assignments`);
-        deletedCounts.sprintAssignments = sprintAssignments.count;
+      // Delete sprints
+      if (dataTypes.includes('sprints')) {
+        // If work items weren't deleted, we need to clear sprint assignments first
+        if (!dataTypes.includes('workItems')) {
+          const sprintAssignments = await tx.sprintWorkItem.deleteMany({ where: { sprint: scope } });
+          deletionResults.push(`✅ Cleared ${sprintAssignments.count} sprint assignments`);
+          deletedCounts.sprintAssignments = sprintAssignments.count;
+        }
+        const result = await tx.sprint.deleteMany({ where: scope });
+        deletionResults.push(`✅ Cleared ${result.count} sprints`);
+        deletedCounts.sprints = result.count;
       }
-      const result = await prisma.sprint.deleteMany({});
-      deletionResults.push(`✅ Cleared ${result.count} sprints`);
-      deletedCounts.sprints = result.count;
-    }
 
-    // Delete team members
-    if (dataTypes.includes('teamMembers')) {
-      const result = await prisma.teamMember.deleteMany({});
-      deletionResults.push(`✅ Cleared ${result.count} team members`);
-      deletedCounts.teamMembers = result.count;
-    }
+      // Delete team members
+      if (dataTypes.includes('teamMembers')) {
+        const result = await tx.teamMember.deleteMany({ where: { ...scope, deletedAt: null } });
+        deletionResults.push(`✅ Cleared ${result.count} team members`);
+        deletedCounts.teamMembers = result.count;
+      }
+
+      await recordAudit(req, 'selective-reset', { ...params, backupId: backup.id }, deletedCounts, tx);
+    }, { timeout: RESET_TRANSACTION_TIMEOUT });
 
     const summary = deletionResults.join(', ');
     console.log('🎉 Selective database reset completed:', summary);
 
-    const response: ApiResponse<{ summary: string; deletedCounts: any }> = {
+    const response: ApiResponse<{ summary: string; deletedCounts: any; backupId: string }> = {
       data: { 
         summary,
-        deletedCounts
+        deletedCounts,
+        backupId: backup.id
       },
       message: 'Selected data types deleted successfully'
     };
@@ -528,14 +1017,128 @@ router.delete('/selective-reset', async (req, res) => {
   }
 });
 
-// DELETE /api/work-items/:id - Delete a work item
+// DELETE /api/work-items/clear-all - Clear all work items, or a team's with ?teamId= (for testing; two-phase, see confirmReset)
+router.delete('/clear-all', requireRole('admin'), async (req, res) => {
+  try {
+    const scope = teamScope(getTeamFilter(req));
+    const params = { teamId: scope.teamId ?? null };
+
+    const countRows = async () => ({
+      sprintAssignments: await prisma.sprintWorkItem.count({ where: { workItem: scope } }),
+      dependencies: await prisma.workItemDependency.count({ where: { workItem: scope } }),
+      workItems: await prisma.workItem.count({ where: { ...scope, deletedAt: null } })
+    });
+    if (!(await confirmReset(req, res, 'clear-all', params, countRows, () => countKeptInTrash(['workItems'], scope)))) return;
+    const backup = await createBackup(req, 'clear-all', params);
+
+    console.log('🧹 Clearing all work items from database...');
+    
+    const deletedCount = await prisma.$transaction(async (tx) => {
+      // Delete all sprint assignments first (foreign key constraint)
+      const deletedAssignments = await tx.sprintWorkItem.deleteMany({ where: { workItem: scope } });
+      console.log('✅ Cleared all sprint assignments');
+
+      // Delete all work item dependencies
+      const deletedDependencies = await tx.workItemDependency.deleteMany({ where: { workItem: scope } });
+      console.log('✅ Cleared all work item dependencies');
+
+      // Delete all work items
+      const deletedWorkItems = await tx.workItem.deleteMany({ where: { ...scope, deletedAt: null } });
+      console.log(`✅ Deleted ${deletedWorkItems.count} work items`);
+      await recordAudit(req, 'clear-all', { ...params, backupId: backup.id }, {
+        sprintAssignments: deletedAssignments.count,
+        dependencies: deletedDependencies.count,
+        workItems: deletedWorkItems.count
+      }, tx);
+      return deletedWorkItems;
+    }, { timeout: RESET_TRANSACTION_TIMEOUT });
+
+    const response: ApiResponse<{ deletedCount: number; backupId: string }> = {
+      data: { deletedCount: deletedCount.count, backupId: backup.id },
+      message: 'All work items cleared successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error clearing work items:', error);
+    const apiError: ApiError = {
+      error: 'Failed to clear work items',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/work-items/reset-database - Reset entire database to start fresh (two-phase, see confirmReset)
+router.delete('/reset-database', requireRole('admin'), async (req, res) => {
+  try {
+    const countRows = async () => ({
+      sprintAssignments: await prisma.sprintWorkItem.count(),
+      dependencies: await prisma.workItemDependency.count(),
+      personalHolidays: await prisma.personalHoliday.count({ where: { teamMember: { deletedAt: null } } }),
+      publicHolidays: await prisma.publicHoliday.count(),
+      workItems: await prisma.workItem.count({ where: { deletedAt: null } }),
+      sprints: await prisma.sprint.count(),
+      teamMembers: await prisma.teamMember.count({ where: { deletedAt: null } })
+    });
+    const countTrash = () => countKeptInTrash(['workItems', 'teamMembers', 'privateHolidays'], {});
+    if (!(await confirmReset(req, res, 'reset-database', {}, countRows, countTrash))) return;
+    const backup = await createBackup(req, 'reset-database', {});
+
+    console.log('🚨 RESETTING ENTIRE DATABASE - Starting complete wipe...');
+    const deletedCounts: { [key: string]: number } = {};
+    
+    await prisma.$transaction(async (tx) => {
+      // Delete all data in the correct order (respecting foreign key constraints)
+      deletedCounts.sprintAssignments = (await tx.sprintWorkItem.deleteMany({})).count;
+      console.log('✅ Cleared all sprint work item assignments');
+
+      deletedCounts.dependencies = (await tx.workItemDependency.deleteMany({})).count;
+      console.log('✅ Cleared all work item dependencies');
+
+      deletedCounts.personalHolidays = (await tx.personalHoliday.deleteMany({ where: { teamMember: { deletedAt: null } } })).count;
+      console.log('✅ Cleared all personal holidays');
+
+      deletedCounts.publicHolidays = (await tx.publicHoliday.deleteMany({})).count;
+      console.log('✅ Cleared all public holidays');
+
+      deletedCounts.workItems = (await tx.workItem.deleteMany({ where: { deletedAt: null } })).count;
+      console.log('✅ Cleared all work items (the trash is kept)');
+
+      deletedCounts.sprints = (await tx.sprint.deleteMany({})).count;
+      console.log('✅ Cleared all sprints');
+
+      deletedCounts.teamMembers = (await tx.teamMember.deleteMany({ where: { deletedAt: null } })).count;
+      console.log('✅ Cleared all team members (the trash is kept)');
+
+      await recordAudit(req, 'reset-database', { backupId: backup.id }, deletedCounts, tx);
+    }, { timeout: RESET_TRANSACTION_TIMEOUT });
+
+    const response: ApiResponse<{ message: string; backupId: string }> = {
+      data: { message: 'Database reset completed successfully', backupId: backup.id },
+      message: 'All data cleared - database is now empty and ready for fresh setup (items in the trash were kept)'
+    };
+
+    console.log('🎉 Database reset completed successfully!');
+    res.json(response);
+  } catch (error) {
+    console.error('❌ Error resetting database:', error);
+    const apiError: ApiError = {
+      error: 'Failed to reset database',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(apiError);
+  }
+});
+
+// DELETE /api/work-items/:id - Move a work item to the trash (restorable with its dependencies and sprint assignments)
 router.delete('/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
     // Check if work item exists
-    const existingWorkItem = await prisma.workItem.findUnique({
-      where: { id }
+    const existingWorkItem = await prisma.workItem.findFirst({
+      where: { id, deletedAt: null }
     });
 
     if (!existingWorkItem) {
@@ -545,13 +1148,13 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json(apiError);
     }
 
-    await prisma.workItem.delete({
-      where: { id }
+    await prisma.$transaction(async (tx) => {
+      await softDeleteWorkItem(tx, id);
     });
 
     const response: ApiResponse<{ id: string }> = {
       data: { id },
-      message: 'Work item deleted successfully'
+      message: 'Work item moved to the trash'
     };
 
     res.json(response);
@@ -569,7 +1172,7 @@ router.delete('/:id', async (req, res) => {
 router.post('/:id/assign-sprint', async (req, res) => {
   try {
     const { id } = req.params;
-    const { sprintId } = req.body;
+    const { sprintId, enforce = false }: { sprintId: string; enforce?: unknown } = req.body;
 
     if (!sprintId) {
       const apiError: ApiError = {
@@ -579,9 +1182,17 @@ router.post('/:id/assign-sprint', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
+    if (typeof enforce !== 'boolean') {
+      const apiError: ApiError = {
+        error: 'Invalid request',
+        message: 'enforce must be true or false'
+      };
+      return res.status(400).json(apiError);
+    }
+
     // Check if work item and sprint exist
     const [workItem, sprint] = await Promise.all([
-      prisma.workItem.findUnique({ where: { id } }),
+      prisma.workItem.findFirst({ where: { id, deletedAt: null } }),
       prisma.sprint.findUnique({ where: { id: sprintId } })
     ]);
 
@@ -599,6 +1210,23 @@ router.post('/:id/assign-sprint', async (req, res) => {
       return res.status(404).json(apiError);
     }
 
+    if (sprint.state === 'closed') {
+      const apiError: ApiError = {
+        error: 'Invalid sprint state',
+        message: `Sprint "${sprint.name}" is closed; work can no longer be assigned to it`
+      };
+      return res.status(409).json(apiError);
+    }
+
+    // Work items of one team cannot be planned into another team's sprint
+    if (workItem.teamId && sprint.teamId && workItem.teamId !== sprint.teamId) {
+      const apiError: ApiError = {
+        error: 'Team mismatch',
+        message: `Sprint "${sprint.name}" belongs to a different team than the work item`
+      };
+      return res.status(400).json(apiError);
+    }
+
     // Check if already assigned
     const existingAssignment = await prisma.sprintWorkItem.findUnique({
       where: {
@@ -616,16 +1244,54 @@ router.post('/:id/assign-sprint', async (req, res) => {
       return res.status(400).json(apiError);
     }
 
-    const assignment = await prisma.sprintWorkItem.create({
-      data: {
-        sprintId,
-        workItemId: id
+    // Check an open sprint can take the extra points; enforce turns the warning into a 409
+    const warnings: ApiWarning[] = [];
+    if (!workItem.isEpic && sprint.state !== 'closed') {
+      const [commitment] = await loadSprintCommitments({ id: sprintId });
+      const projectedPoints = commitment.committedPoints + workItem.estimateStoryPoints;
+
+      if (projectedPoints > commitment.availableVelocity) {
+        const details = {
+          sprintId,
+          sprintName: sprint.name,
+          availableVelocity: commitment.availableVelocity,
+          committedPoints: commitment.committedPoints,
+          workItemPoints: workItem.estimateStoryPoints,
+          projectedPoints,
+          overBy: Math.round((projectedPoints - commitment.availableVelocity) * 100) / 100
+        };
+        const message = `Sprint "${sprint.name}" would be committed to ${projectedPoints} points against an available capacity of ${commitment.availableVelocity}`;
+
+        if (enforce) {
+          console.warn(`🚫 Blocked over-commitment: ${message}`);
+          const apiError: ApiError = {
+            error: 'Sprint over-committed',
+            message,
+            details
+          };
+          return res.status(409).json(apiError);
+        }
+
+        console.warn(`⚠️ Over-commitment: ${message}`);
+        warnings.push({ type: 'over-commitment', message, details });
       }
+    }
+
+    const assignment = await prisma.$transaction(async (tx) => {
+      const created = await tx.sprintWorkItem.create({
+        data: {
+          sprintId,
+          workItemId: id
+        }
+      });
+      await recordWorkItemChanges(tx, [{ workItemId: id, field: 'sprint', oldValue: null, newValue: sprintId }], 'manual');
+      return created;
     });
 
     const response: ApiResponse<typeof assignment> = {
       data: assignment,
-      message: 'Work item assigned to sprint successfully'
+      message: 'Work item assigned to sprint successfully',
+      ...(warnings.length > 0 && { warnings })
     };
 
     res.status(201).json(response);
@@ -660,13 +1326,16 @@ router.delete('/:id/assign-sprint/:sprintId', async (req, res) => {
       return res.status(404).json(apiError);
     }
 
-    await prisma.sprintWorkItem.delete({
-      where: {
-        sprintId_workItemId: {
-          sprintId,
-          workItemId: id
+    await prisma.$transaction(async (tx) => {
+      await tx.sprintWorkItem.delete({
+        where: {
+          sprintId_workItemId: {
+            sprintId,
+            workItemId: id
+          }
         }
-      }
+      });
+      await recordWorkItemChanges(tx, [{ workItemId: id, field: 'sprint', oldValue: sprintId, newValue: null }], 'manual');
     });
 
     const response: ApiResponse<{ workItemId: string; sprintId: string }> = {
@@ -685,81 +1354,4 @@ router.delete('/:id/assign-sprint/:sprintId', async (req, res) => {
   }
 });
 
-// DELETE /api/work-items/clear-all - Clear all work items (for testing)
-router.delete('/clear-all', async (req, res) => {
-  try {
-    console.log('🧹 Clearing all work items from database...');
-    
-    // Delete all sprint assignments first (foreign key constraint)
-    await prisma.sprintWorkItem.deleteMany({});
-    console.log('✅ Cleared all sprint assignments');
-    
-    // Delete all work item dependencies
-    await prisma.workItemDependency.deleteMany({});
-    console.log('✅ Cleared all work item dependencies');
-    
-    // Delete all work items
-    const deletedCount = await prisma.workItem.deleteMany({});
-    console.log(`✅ Deleted ${deletedCount.count} work items`);
-
-    const response: ApiResponse<{ deletedCount: number }> = {
-      data: { deletedCount: deletedCount.count },
-      message: 'All work items cleared successfully'
-    };
-
-    res.json(response);
-  } catch (error) {
-    console.error('Error clearing work items:', error);
-    const apiError: ApiError = {
-      error: 'Failed to clear work items',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    };
-    res.status(500).json(apiError);
-  }
-});
-
-// DELETE /api/work-items/reset-database - Reset entire database to start fresh
-router.delete('/reset-database', async (req, res) => {
-  try {
-    console.log('🚨 RESETTING ENTIRE DATABASE - Starting complete wipe...');
-    
-    // Delete all data in the correct order (respecting foreign key constraints)
-    await prisma.sprintWorkItem.deleteMany({});
-    console.log('✅ Cleared all sprint work item assignments');
-    
-    await prisma.workItemDependency.deleteMany({});
-    console.log('✅ Cleared all work item dependencies');
-    
-    await prisma.personalHoliday.deleteMany({});
-    console.log('✅ Cleared all personal holidays');
-    
-    await prisma.publicHoliday.deleteMany({});
-    console.log('✅ Cleared all public holidays');
-    
-    await prisma.workItem.deleteMany({});
-    console.log('✅ Cleared all work items');
-    
-    await prisma.sprint.deleteMany({});
-    console.log('✅ Cleared all sprints');
-    
-    await prisma.teamMember.deleteMany({});
-    console.log('✅ Cleared all team members');
-
-    const response: ApiResponse<{ message: string }> = {
-      data: { message: 'Database reset completed successfully' },
-      message: 'All data cleared - database is now empty and ready for fresh setup'
-    };
-
-    console.log('🎉 Database reset completed successfully!');
-    res.json(response);
-  } catch (error) {
-    console.error('❌ Error resetting database:', error);
-    const apiError: ApiError = {
-      error: 'Failed to reset database',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    };
-    res.status(500).json(apiError);
-  }
-});
-
 export default router; 
\ No newline at end of file
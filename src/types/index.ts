@@ -4,6 +4,7 @@ export interface TeamMemberData {
   name: string;
   capacity: number;
   skills: Skill[];
+  teamId?: string | null;
 }
 
 export interface WorkItemData {
@@ -19,6 +20,8 @@ export interface WorkItemData {
   epicId?: string | null; // Optional Epic ID if this work item belongs to an epic
   isEpic?: boolean; // True if this work item is an epic
   priority?: 'Critical' | 'High' | 'Medium' | 'Low'; // Epic priority level
+  assigneeId?: string | null; // Team member doing the work
+  teamId?: string | null;
 }
 
 export interface EpicData {
@@ -35,6 +38,7 @@ export interface SprintData {
   endDate: string;
   plannedVelocity: number;
   actualVelocity?: number;
+  teamId?: string | null;
 }
 
 export interface PersonalHolidayData {
@@ -48,6 +52,7 @@ export interface PublicHolidayData {
   name: string;
   date: string;
   impactPercentage: number;
+  teamId?: string | null; // Applies to every team when empty
 }
 
 export interface SprintConfigData {
@@ -55,6 +60,26 @@ export interface SprintConfigData {
   sprintDurationDays: number;
   defaultVelocity: number;
   startingQuarterSprintNumber: number;
+  effectiveFrom?: string; // Defaults to today, or firstSprintStartDate for the first version
+  teamId?: string | null; // Team the version applies to; shared by all teams when empty
+}
+
+export interface TeamData {
+  name: string;
+  description?: string;
+}
+
+export interface UserData {
+  name: string;
+  email: string;
+  role?: 'viewer' | 'planner' | 'admin';
+  active?: boolean;
+}
+
+export interface ScenarioData {
+  name: string;
+  description?: string;
+  teamId?: string | null; // Fork and promote only this team's plan
 }
 
 // Extended response types for API responses
@@ -75,6 +100,8 @@ export interface WorkItemResponse {
   epicId?: string | null; // Optional Epic ID if this work item belongs to an epic
   isEpic?: boolean; // True if this work item is an epic
   priority?: string; // Epic priority level
+  assigneeId?: string | null; // Team member doing the work
+  teamId?: string | null;
 }
 
 export interface SprintResponse {
@@ -86,6 +113,11 @@ export interface SprintResponse {
   endDate: Date;
   plannedVelocity: number;
   actualVelocity: number | null;
+  state?: string; // 'planned' | 'active' | 'closed'
+  startedAt?: Date | null;
+  closedAt?: Date | null;
+  carriedOverPoints?: number | null;
+  teamId?: string | null;
   workItems: string[];
 }
 
@@ -103,9 +135,16 @@ export interface EpicResponse {
   completedStoryPoints: number;
 }
 
+export interface ApiWarning {
+  type: string;
+  message: string;
+  details?: any;
+}
+
 export interface ApiResponse<T> {
   data: T;
   message?: string;
+  warnings?: ApiWarning[];
 }
 
 export interface ApiError {